@@ -0,0 +1,73 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+/**
+ * Move RedemptionRequest.status from TxStatus to RedemptionStatus.
+ *
+ * Run this before applying the schema that introduced RedemptionStatus
+ * (`npm run migrate:redemption-status`, then `prisma migrate dev`), so the
+ * column is converted in place instead of being dropped and recreated.
+ * Legacy COMPLETED rows become PAID; PENDING, FAILED and REJECTED keep
+ * their status. Running it again is a no-op.
+ */
+async function main() {
+    console.log("Migrating redemption statuses...");
+
+    await prisma.$executeRawUnsafe(`
+        DO $$ BEGIN
+            CREATE TYPE "RedemptionStatus" AS ENUM ('PENDING', 'PROCESSING', 'PAID', 'FAILED', 'REJECTED');
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `);
+
+    const [column] = await prisma.$queryRaw<{ udt_name: string }[]>`
+        SELECT udt_name FROM information_schema.columns
+        WHERE table_name = 'RedemptionRequest' AND column_name = 'status'
+    `;
+
+    if (!column) {
+        console.log("RedemptionRequest table not found, nothing to migrate.");
+        return;
+    }
+
+    if (column.udt_name === "RedemptionStatus") {
+        console.log("Redemption statuses already migrated.");
+        return;
+    }
+
+    const [{ legacy }] = await prisma.$queryRaw<{ legacy: number }[]>`
+        SELECT COUNT(*)::int AS legacy FROM "RedemptionRequest"
+        WHERE "status"::text = 'COMPLETED'
+    `;
+
+    await prisma.$transaction([
+        prisma.$executeRawUnsafe(
+            `ALTER TABLE "RedemptionRequest" ALTER COLUMN "status" DROP DEFAULT`
+        ),
+        prisma.$executeRawUnsafe(`
+            ALTER TABLE "RedemptionRequest" ALTER COLUMN "status" TYPE "RedemptionStatus"
+            USING (
+                CASE "status"::text WHEN 'COMPLETED' THEN 'PAID' ELSE "status"::text END
+            )::"RedemptionStatus"
+        `),
+        prisma.$executeRawUnsafe(
+            `ALTER TABLE "RedemptionRequest" ALTER COLUMN "status" SET DEFAULT 'PENDING'`
+        )
+    ]);
+
+    console.log(`Redemption statuses migrated (${legacy} COMPLETED -> PAID).`);
+}
+
+main()
+    .then(() => {
+        process.exit(0);
+    })
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
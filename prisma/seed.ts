@@ -1,4 +1,4 @@
-import { PrismaClient, NotificationType, TxStatus, CommissionStatus } from "@prisma/client";
+import { PrismaClient, NotificationType, TxStatus, CommissionStatus, RedemptionStatus } from "@prisma/client";
 import * as bcrypt from "bcrypt";
 import { faker } from "@faker-js/faker";
 
@@ -15,14 +15,31 @@ async function main() {
     console.log("Starting seed...");
 
     // 1. Clean up existing data
+    await prisma.reconciliationRun.deleteMany();
+    await prisma.ledgerEntry.deleteMany();
+    await prisma.transactionReversal.deleteMany();
+    await prisma.idempotencyKey.deleteMany();
+    await prisma.session.deleteMany();
+    await prisma.passwordReset.deleteMany();
+    await prisma.transactionPin.deleteMany();
     await prisma.notification.deleteMany();
     await prisma.auditLog.deleteMany();
     await prisma.systemSetting.deleteMany();
     await prisma.otp.deleteMany();
+    await prisma.outboundMessage.deleteMany();
+    await prisma.smsLog.deleteMany();
+    await prisma.authThrottle.deleteMany();
+    await prisma.authFailure.deleteMany();
     await prisma.goal.deleteMany();
+    await prisma.duePaymentAllocation.deleteMany();
+    await prisma.duePayment.deleteMany();
+    await prisma.collectorHandover.deleteMany();
     await prisma.kioskDue.deleteMany();
+    await prisma.invoice.deleteMany();
     await prisma.redemptionRequest.deleteMany();
+    await prisma.payoutBatch.deleteMany();
     await prisma.transaction.deleteMany();
+    await prisma.commissionRule.deleteMany();
     await prisma.workerProfile.deleteMany();
     await prisma.kiosk.deleteMany();
     await prisma.wallet.deleteMany();
@@ -43,6 +60,39 @@ async function main() {
             { key: "max_kiosks", value: "10", description: "Maximum number of kiosks per owner" },
             { key: "max_transaction_amount", value: "100", description: "Maximum transaction amount" },
             { key: "max_daily_tx_to_customer", value: "2", description: "Maximum daily transactions to same customer" },
+            { key: "reversal_window_minutes", value: "30", description: "Minutes an owner has to reverse a transaction" },
+            { key: "transfer_fee", value: "0", description: "Flat fee charged on customer transfers" },
+            { key: "transfer_max_daily_count", value: "5", description: "Maximum daily transfers per customer" },
+            { key: "transfer_max_daily_amount", value: "1000", description: "Maximum daily transferred points per customer" },
+            { key: "points_expiry_mode", value: "NONE", description: "Points expiry policy: NONE, FIXED or INACTIVITY" },
+            { key: "points_expiry_months", value: "12", description: "Months until points expire under the expiry policy" },
+            { key: "points_expiry_warning_days", value: "14", description: "Days before expiry to warn customers" },
+            { key: "shadow_wallet_reminder_days", value: "[3,10,30]", description: "Days after a deposit to remind unregistered receivers to claim points" },
+            { key: "shadow_wallet_expiry_days", value: "90", description: "Days after the last deposit before unclaimed points expire (0 disables)" },
+            { key: "redemption_method_vodafone_cash", value: JSON.stringify({ enabled: true, min: 50, max: 5000, fee_type: "FLAT", fee_value: 5, details_pattern: "^(\\+?20)?01[0125][0-9]{8}$" }), description: "Vodafone Cash redemption rule" },
+            { key: "redemption_method_instapay", value: JSON.stringify({ enabled: true, min: 50, max: 10000, fee_type: "FLAT", fee_value: 5, details_pattern: "^[A-Za-z0-9._-]+@instapay$" }), description: "Instapay redemption rule" },
+            { key: "redemption_method_bank_transfer", value: JSON.stringify({ enabled: true, min: 500, max: null, fee_type: "PERCENTAGE", fee_value: 1, details_pattern: "^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$" }), description: "Bank transfer redemption rule" },
+            { key: "redemption_claim_ttl_minutes", value: "30", description: "Minutes an admin's claim on a redemption holds before another admin can take it over" },
+            { key: "invoice_billing_period", value: "MONTHLY", description: "Kiosk invoice billing period (WEEKLY or MONTHLY)" },
+            { key: "owner_wallet_min_reserve", value: "0", description: "Points an owner must keep in their wallet when settling dues from it" },
+            { key: "kiosk_credit_limit", value: "10000", description: "Maximum unpaid dues before a kiosk can no longer send points (0 = unlimited)" },
+            { key: "kiosk_max_due_age_days", value: "14", description: "Days an unpaid due may stay open before the kiosk can no longer send points (0 = unlimited)" },
+            { key: "kiosk_credit_warning_percent", value: "80", description: "Share of the credit limit or due age at which kiosks are warned" },
+            { key: "otp_length", value: "4", description: "Number of digits in verification codes (4-8)" },
+            { key: "otp_ttl_minutes", value: "10", description: "Minutes a verification code stays valid" },
+            { key: "otp_max_attempts", value: "5", description: "Wrong entries allowed per verification code before it is locked" },
+            { key: "otp_lockout_minutes", value: "15", description: "Minutes a phone must wait for a new code after a code is locked" },
+            { key: "otp_resend_cooldown_seconds", value: "60", description: "Seconds before another code can be sent to the same phone" },
+            { key: "auth_max_failed_attempts", value: "10", description: "Failed logins or OTP checks after which a phone is locked" },
+            { key: "auth_lockout_minutes", value: "30", description: "Minutes a locked phone stays locked unless an admin unlocks it" },
+            { key: "auth_backoff_free_attempts", value: "3", description: "Failed attempts per phone before the wait between tries starts doubling" },
+            { key: "auth_backoff_max_seconds", value: "900", description: "Longest wait between failed attempts" },
+            { key: "auth_ip_free_attempts", value: "20", description: "Failed attempts per IP address before the wait between tries starts doubling" },
+            { key: "transaction_pin_required", value: "false", description: "Require every user to set a transaction PIN before redeeming, transferring or sending above the threshold" },
+            { key: "transaction_pin_send_threshold", value: "500", description: "Points above which a send needs the transaction PIN" },
+            { key: "transaction_pin_max_attempts", value: "5", description: "Wrong PIN entries before the PIN is locked" },
+            { key: "transaction_pin_lockout_minutes", value: "30", description: "Minutes a locked PIN stays locked" },
+            { key: "message_inbox_enabled", value: "false", description: "Capture outbound SMS in the message inbox outside development (super admins only)" },
         ]
     });
     console.log("System settings created.");
@@ -124,6 +174,23 @@ async function main() {
     }
     console.log("Kiosks created.");
 
+    // Field collector covering the first kiosks
+    const collector = await prisma.user.create({
+        data: {
+            full_name: faker.person.fullName(),
+            phone: "01200000000",
+            password_hash: passwordHash,
+            role: "COLLECTOR",
+            is_active: true,
+            is_verified: true
+        }
+    });
+    await prisma.kiosk.updateMany({
+        where: { id: { in: kiosks.slice(0, 3).map((k) => k.id) } },
+        data: { collector_id: collector.id }
+    });
+    console.log("Collector created.");
+
     // 6. Create Workers
     const workers = [];
     for (let i = 0; i < 15; i++) {
@@ -273,9 +340,11 @@ async function main() {
 
     // 10. Create Redemption Requests
     const redemptionMethods = ["Vodafone Cash", "Instapay", "Orange Cash", "Etisalat Cash"];
-    const redemptionStatuses: TxStatus[] = ["PENDING", "PENDING", "COMPLETED", "REJECTED"];
+    const redemptionStatuses: RedemptionStatus[] = ["PENDING", "PENDING", "PAID", "REJECTED"];
     for (let i = 0; i < 15; i++) {
         const user = faker.helpers.arrayElement([...customers, ...workers.map(w => w.user)]);
+        const status = faker.helpers.arrayElement(redemptionStatuses);
+        const createdAt = faker.date.recent({ days: 14 });
         await prisma.redemptionRequest.create({
             data: {
                 user_id: user.id,
@@ -283,9 +352,16 @@ async function main() {
                 method: faker.helpers.arrayElement(redemptionMethods),
                 details: generateEgyptianPhone(),
                 type: faker.helpers.arrayElement(["E-Wallet", "Bank Transfer"]),
-                status: faker.helpers.arrayElement(redemptionStatuses),
+                status,
+                provider_reference: status === "PAID" ? faker.string.alphanumeric(10).toUpperCase() : null,
                 admin_note: faker.datatype.boolean() ? faker.lorem.sentence() : null,
-                created_at: faker.date.recent({ days: 14 })
+                created_at: createdAt,
+                status_history: {
+                    create: [
+                        { to_status: "PENDING", created_at: createdAt },
+                        ...(status !== "PENDING" ? [{ from_status: "PENDING" as const, to_status: status }] : [])
+                    ]
+                }
             }
         });
     }
@@ -295,12 +371,15 @@ async function main() {
     for (const kiosk of kiosks) {
         const numDues = faker.number.int({ min: 1, max: 5 });
         for (let i = 0; i < numDues; i++) {
+            const amount = faker.number.float({ min: 100, max: 2000, fractionDigits: 2 });
+            const isPaid = faker.datatype.boolean();
             await prisma.kioskDue.create({
                 data: {
                     kiosk_id: kiosk.id,
-                    amount: faker.number.float({ min: 100, max: 2000, fractionDigits: 2 }),
-                    is_paid: faker.datatype.boolean(),
-                    collected_by: faker.datatype.boolean() ? viewerAdmin.id : null,
+                    amount,
+                    paid_amount: isPaid ? amount : 0,
+                    is_paid: isPaid,
+                    collected_by: isPaid ? viewerAdmin.id : null,
                     created_at: faker.date.recent({ days: 30 })
                 }
             });
@@ -46,34 +46,144 @@ export const getPendingRedemptions = asyncHandler(
 /**
  * Process redemption request.
  *
- * @param {Request} req - The Express request object containing reqId, action, and note in body.
+ * @param {Request} req - The Express request object containing reqId, action, note, reference and proof in body.
  * @param {Response} res - The Express response object.
  */
 export const processRedemption = asyncHandler(
     async (req: Request, res: Response) => {
-        const { reqId, action, note } = req.body;
+        const { reqId, action, note, reference, proof } = req.body;
+        const adminId = req.user!.id;
 
         const redemption = await adminService.processRedemption(
             reqId,
             action,
+            adminId,
+            { note, reference, proof },
             req,
-            res,
-            note
+            res
         );
 
+        if (res.headersSent) return;
+
         ResponseHandler.success(
             res,
-            `Redemption ${action.toLowerCase()}ed successfully`,
+            `Redemption ${redemption.status.toLowerCase()}`,
             {
                 id: redemption.id,
                 status: redemption.status,
                 user_id: redemption.user_id,
-                amount: redemption.amount.toString()
+                amount: redemption.amount.toString(),
+                provider_reference: redemption.provider_reference,
+                proof_reference: redemption.proof_reference
             }
         );
     }
 );
 
+/**
+ * Claim a redemption for processing.
+ *
+ * @param {Request} req - The Express request object containing id in params.
+ * @param {Response} res - The Express response object.
+ */
+export const claimRedemption = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+
+        const redemption = await adminService.claimRedemption(
+            id,
+            adminId,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Redemption claimed", redemption);
+    }
+);
+
+/**
+ * Release a claimed redemption back to pending.
+ *
+ * @param {Request} req - The Express request object containing id in params and note in body.
+ * @param {Response} res - The Express response object.
+ */
+export const releaseRedemption = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const { note } = req.body;
+        const adminId = req.user!.id;
+
+        const redemption = await adminService.releaseRedemption(
+            id,
+            adminId,
+            req,
+            res,
+            note
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Redemption released", redemption);
+    }
+);
+
+/**
+ * Force-release another admin's claim on a redemption (super admins only).
+ *
+ * @param {Request} req - The Express request object containing id in params and note in body.
+ * @param {Response} res - The Express response object.
+ */
+export const forceReleaseRedemption = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const { note } = req.body;
+        const adminId = req.user!.id;
+
+        const redemption = await adminService.forceReleaseRedemption(
+            id,
+            adminId,
+            req,
+            res,
+            note
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Redemption released", redemption);
+    }
+);
+
+/**
+ * Reverse a deposit transaction.
+ *
+ * @param {Request} req - The Express request object containing id in params and reason in body.
+ * @param {Response} res - The Express response object.
+ */
+export const reverseTransaction = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const { reason } = req.body;
+        const adminId = req.user!.id;
+
+        const reversal = await adminService.reverseTransaction(
+            id,
+            reason,
+            adminId,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Transaction reversed successfully", {
+            reversal
+        });
+    }
+);
+
 /**
  * Get due list.
  *
@@ -96,13 +206,18 @@ export const getDueList = asyncHandler(async (req: Request, res: Response) => {
  */
 export const collectDue = asyncHandler(async (req: Request, res: Response) => {
     const { dueId } = req.body;
+    const adminId = req.user!.id;
+
+    const due = await adminService.collectDue(dueId, adminId, req, res);
 
-    const due = await adminService.collectDue(dueId, req, res);
+    if (res.headersSent) return;
 
     ResponseHandler.success(res, "Due collected successfully", {
         id: due.id,
         amount: due.amount.toString(),
-        is_paid: due.is_paid
+        is_paid: due.is_paid,
+        collected_by: due.collected_by,
+        receipt_number: due.receipt_number
     });
 });
 
@@ -130,6 +245,7 @@ export const updateSetting = asyncHandler(
             res,
             description
         );
+        if (res.headersSent) return;
         ResponseHandler.success(res, "Setting updated", setting);
     }
 );
@@ -293,6 +409,44 @@ export const updateKioskStatus = asyncHandler(
     }
 );
 
+/**
+ * Update kiosk transaction limits.
+ */
+export const updateKioskLimits = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const updated = await adminService.updateKioskLimits(
+            id,
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Kiosk limits updated", updated);
+    }
+);
+
+/**
+ * Update kiosk credit policy.
+ */
+export const updateKioskCreditPolicy = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const updated = await adminService.updateKioskCreditPolicy(
+            id,
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Kiosk credit policy updated", updated);
+    }
+);
+
 // ============================================================================
 // WORKER CONTROLLERS
 // ============================================================================
@@ -405,3 +559,439 @@ export const updateCustomerStatus = asyncHandler(
         );
     }
 );
+
+// ============================================================================
+// COMMISSION RULE CONTROLLERS
+// ============================================================================
+
+/**
+ * Get commission rules.
+ */
+export const getCommissionRules = asyncHandler(
+    async (req: Request, res: Response) => {
+        const filters = req.query;
+        const rules = await adminService.getCommissionRules(filters, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Commission rules retrieved", rules);
+    }
+);
+
+/**
+ * Publish a new commission rule version.
+ */
+export const createCommissionRule = asyncHandler(
+    async (req: Request, res: Response) => {
+        const data = req.body;
+        const adminId = req.user!.id;
+        const rule = await adminService.createCommissionRule(
+            data,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.created(res, "Commission rule created", rule);
+    }
+);
+
+/**
+ * Deactivate a commission rule.
+ */
+export const deactivateCommissionRule = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const rule = await adminService.deactivateCommissionRule(
+            id,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Commission rule deactivated", rule);
+    }
+);
+
+// ============================================================================
+// SHADOW WALLET CONTROLLERS
+// ============================================================================
+
+/**
+ * Get shadow wallets with filters.
+ */
+export const getShadowWallets = asyncHandler(
+    async (req: Request, res: Response) => {
+        const filters = req.query;
+        const wallets = await adminService.getShadowWallets(filters, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Shadow wallets retrieved", wallets);
+    }
+);
+
+// ============================================================================
+// RECONCILIATION CONTROLLERS
+// ============================================================================
+
+/**
+ * Get reconciliation runs.
+ */
+export const getReconciliationRuns = asyncHandler(
+    async (req: Request, res: Response) => {
+        const filters = req.query;
+        const runs = await adminService.getReconciliationRuns(
+            filters,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Reconciliation runs retrieved", runs);
+    }
+);
+
+/**
+ * Get reconciliation run details with drift report.
+ */
+export const getReconciliationRunDetails = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const run = await adminService.getReconciliationRunDetails(
+            id,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Reconciliation run retrieved", run);
+    }
+);
+
+/**
+ * Trigger a reconciliation run.
+ */
+export const runReconciliation = asyncHandler(
+    async (req: Request, res: Response) => {
+        const adminId = req.user!.id;
+        const run = await adminService.triggerReconciliation(adminId, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.created(res, "Reconciliation run completed", run);
+    }
+);
+
+// ============================================================================
+// PAYOUT BATCH CONTROLLERS
+// ============================================================================
+
+/**
+ * Lock pending redemptions into a payout batch.
+ */
+export const createPayoutBatch = asyncHandler(
+    async (req: Request, res: Response) => {
+        const adminId = req.user!.id;
+        const batch = await adminService.createPayoutBatch(
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.created(res, "Payout batch created", batch);
+    }
+);
+
+/**
+ * Get payout batches.
+ */
+export const getPayoutBatches = asyncHandler(
+    async (req: Request, res: Response) => {
+        const filters = req.query;
+        const batches = await adminService.getPayoutBatches(filters, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Payout batches retrieved", batches);
+    }
+);
+
+/**
+ * Get payout batch details.
+ */
+export const getPayoutBatchDetails = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const batch = await adminService.getPayoutBatchDetails(id, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Payout batch retrieved", batch);
+    }
+);
+
+/**
+ * Download a payout batch as CSV.
+ */
+export const exportPayoutBatch = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const file = await adminService.exportPayoutBatch(
+            id,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${file.filename}"`
+        );
+        res.status(200).send(file.csv);
+    }
+);
+
+/**
+ * Import a provider settlement file for a payout batch.
+ */
+export const importPayoutSettlement = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const { csv } = req.body;
+        const adminId = req.user!.id;
+        const result = await adminService.importPayoutSettlement(
+            id,
+            csv,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Settlement imported", result);
+    }
+);
+
+// ============================================================================
+// DUE PAYMENT CONTROLLERS
+// ============================================================================
+
+/**
+ * Record a payment against a kiosk's dues.
+ */
+export const recordDuePayment = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const receipt = await adminService.recordDuePayment(
+            id,
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.created(res, "Payment recorded", receipt);
+    }
+);
+
+/**
+ * Get a kiosk's due payments.
+ */
+export const getKioskDuePayments = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const filters = req.query;
+        const payments = await adminService.getKioskDuePayments(
+            id,
+            filters,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Payments retrieved", payments);
+    }
+);
+
+/**
+ * Get a due payment receipt.
+ */
+export const getDuePaymentReceipt = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const receipt = await adminService.getDuePaymentReceipt(id, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Receipt retrieved", receipt);
+    }
+);
+
+// ============================================================================
+// INVOICE CONTROLLERS
+// ============================================================================
+
+/**
+ * Get kiosk invoices.
+ */
+export const getInvoices = asyncHandler(async (req: Request, res: Response) => {
+    const filters = req.query;
+    const invoices = await adminService.getInvoices(filters, req, res);
+    if (res.headersSent) return;
+    ResponseHandler.success(res, "Invoices retrieved", invoices);
+});
+
+/**
+ * Get invoice details.
+ */
+export const getInvoiceDetails = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const invoice = await adminService.getInvoiceDetails(id, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Invoice retrieved", invoice);
+    }
+);
+
+/**
+ * Collect a payment against an invoice.
+ */
+export const collectInvoice = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const receipt = await adminService.collectInvoice(
+            id,
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.created(res, "Invoice payment recorded", receipt);
+    }
+);
+
+// ============================================================================
+// COLLECTOR CONTROLLERS
+// ============================================================================
+
+/**
+ * Create a collector.
+ */
+export const createCollector = asyncHandler(
+    async (req: Request, res: Response) => {
+        const adminId = req.user!.id;
+        const collector = await adminService.createCollector(
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.created(res, "Collector created", collector);
+    }
+);
+
+/**
+ * Get collectors.
+ */
+export const getCollectors = asyncHandler(
+    async (req: Request, res: Response) => {
+        const filters = req.query;
+        const collectors = await adminService.getCollectors(filters, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Collectors retrieved", collectors);
+    }
+);
+
+/**
+ * Assign kiosks to a collector.
+ */
+export const assignCollectorKiosks = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const result = await adminService.assignCollectorKiosks(
+            id,
+            req.body.kioskIds,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Collector kiosks updated", result);
+    }
+);
+
+/**
+ * Get collector handovers.
+ */
+export const getHandovers = asyncHandler(
+    async (req: Request, res: Response) => {
+        const filters = req.query;
+        const handovers = await adminService.getHandovers(filters, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Handovers retrieved", handovers);
+    }
+);
+
+/**
+ * Get handover details.
+ */
+export const getHandoverDetails = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const handover = await adminService.getHandoverDetails(id, req, res);
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Handover retrieved", handover);
+    }
+);
+
+/**
+ * Reconcile a collector handover.
+ */
+export const reconcileHandover = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const adminId = req.user!.id;
+        const handover = await adminService.reconcileHandover(
+            id,
+            req.body,
+            adminId,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+        ResponseHandler.success(res, "Handover reconciled", handover);
+    }
+);
+
+// ============================================================================
+// SMS CONTROLLERS
+// ============================================================================
+
+/**
+ * Get SMS stats.
+ */
+export const getSmsStats = asyncHandler(async (req: Request, res: Response) => {
+    const filter = (req.query.filter as "1d" | "7d" | "30d") || "7d";
+    const stats = await adminService.getSmsStats(filter, req, res);
+    if (res.headersSent) return;
+    ResponseHandler.success(res, "SMS stats retrieved", stats);
+});
+
+/**
+ * Get SMS logs.
+ */
+export const getSmsLogs = asyncHandler(async (req: Request, res: Response) => {
+    const filters = req.query;
+    const logs = await adminService.getSmsLogs(filters, req, res);
+    if (res.headersSent) return;
+    ResponseHandler.success(res, "SMS logs retrieved", logs);
+});
+
+// ============================================================================
+// USER SECURITY CONTROLLERS
+// ============================================================================
+
+/**
+ * Unlock a user locked out by failed login or OTP attempts.
+ */
+export const unlockUser = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const adminId = req.user!.id;
+    const security = await adminService.unlockUser(id, adminId, req, res);
+    if (res.headersSent) return;
+    ResponseHandler.success(res, "User unlocked", security);
+});
@@ -10,7 +10,18 @@ import {
     adjustBalanceSchema,
     adminCreateKioskSchema,
     updateKioskStatusSchema,
-    reassignWorkerSchema
+    transactionLimitsSchema,
+    creditPolicySchema,
+    reassignWorkerSchema,
+    reverseTransactionSchema,
+    createCommissionRuleSchema,
+    createPayoutBatchSchema,
+    importSettlementSchema,
+    redemptionLockSchema,
+    duePaymentSchema,
+    createCollectorSchema,
+    assignCollectorKiosksSchema,
+    reconcileHandoverSchema
 } from "../../schemas/validation.schema.js";
 import {
     authMiddleware,
@@ -177,6 +188,221 @@ router.put(
     adminController.updateKioskStatus
 );
 
+/**
+ * PUT /api/admin/kiosks/:id/limits
+ * Set kiosk transaction limit overrides (null resets to global).
+ */
+router.put(
+    "/kiosks/:id/limits",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(transactionLimitsSchema),
+    adminController.updateKioskLimits
+);
+
+/**
+ * PUT /api/admin/kiosks/:id/credit-policy
+ * Set kiosk credit limit and maximum due age (null resets to global).
+ */
+router.put(
+    "/kiosks/:id/credit-policy",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(creditPolicySchema),
+    adminController.updateKioskCreditPolicy
+);
+
+// ============================================================================
+// COMMISSION RULES
+// ============================================================================
+
+/**
+ * GET /api/admin/commission-rules
+ * List commission rules.
+ *
+ * POST /api/admin/commission-rules
+ * Publish a new rule version (Super Admin).
+ */
+router
+    .route("/commission-rules")
+    .get(adminController.getCommissionRules)
+    .post(
+        adminRoleGuard("SUPER_ADMIN"),
+        validateRequest(createCommissionRuleSchema),
+        adminController.createCommissionRule
+    );
+
+/**
+ * DELETE /api/admin/commission-rules/:id
+ * Deactivate a commission rule (Super Admin).
+ */
+router.delete(
+    "/commission-rules/:id",
+    adminRoleGuard("SUPER_ADMIN"),
+    adminController.deactivateCommissionRule
+);
+
+// ============================================================================
+// SHADOW WALLETS
+// ============================================================================
+
+/**
+ * GET /api/admin/shadow-wallets
+ * List unclaimed shadow wallets with balances, age and source kiosks.
+ */
+router.get("/shadow-wallets", adminController.getShadowWallets);
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * GET /api/admin/reconciliation
+ * List wallet reconciliation runs.
+ *
+ * POST /api/admin/reconciliation
+ * Run a reconciliation now (Super Admin).
+ */
+router
+    .route("/reconciliation")
+    .get(adminController.getReconciliationRuns)
+    .post(adminRoleGuard("SUPER_ADMIN"), adminController.runReconciliation);
+
+/**
+ * GET /api/admin/reconciliation/:id
+ * Get a reconciliation run with its drift report.
+ */
+router.get("/reconciliation/:id", adminController.getReconciliationRunDetails);
+
+// ============================================================================
+// PAYOUT BATCHES
+// ============================================================================
+
+/**
+ * GET /api/admin/payout-batches
+ * List payout batches.
+ *
+ * POST /api/admin/payout-batches
+ * Lock pending redemptions of a method into a batch.
+ */
+router
+    .route("/payout-batches")
+    .get(adminController.getPayoutBatches)
+    .post(
+        adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+        validateRequest(createPayoutBatchSchema),
+        adminController.createPayoutBatch
+    );
+
+/**
+ * GET /api/admin/payout-batches/:id
+ * Get batch details with its redemptions.
+ */
+router.get("/payout-batches/:id", adminController.getPayoutBatchDetails);
+
+/**
+ * GET /api/admin/payout-batches/:id/export
+ * Download the provider payout CSV.
+ */
+router.get(
+    "/payout-batches/:id/export",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    adminController.exportPayoutBatch
+);
+
+/**
+ * POST /api/admin/payout-batches/:id/settlement
+ * Import the provider settlement file (PAID / FAILED / REJECTED per line).
+ */
+router.post(
+    "/payout-batches/:id/settlement",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(importSettlementSchema),
+    adminController.importPayoutSettlement
+);
+
+// ============================================================================
+// COLLECTORS
+// ============================================================================
+
+/**
+ * GET /api/admin/collectors
+ * List collectors with assigned kiosks and cash not handed over.
+ *
+ * POST /api/admin/collectors
+ * Create a collector account (Super Admin).
+ */
+router
+    .route("/collectors")
+    .get(adminController.getCollectors)
+    .post(
+        adminRoleGuard("SUPER_ADMIN"),
+        validateRequest(createCollectorSchema),
+        adminController.createCollector
+    );
+
+/**
+ * PUT /api/admin/collectors/:id/kiosks
+ * Replace the kiosks assigned to a collector.
+ */
+router.put(
+    "/collectors/:id/kiosks",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(assignCollectorKiosksSchema),
+    adminController.assignCollectorKiosks
+);
+
+/**
+ * GET /api/admin/handovers
+ * List collector handovers (filter by collectorId and status).
+ */
+router.get("/handovers", adminController.getHandovers);
+
+/**
+ * GET /api/admin/handovers/:id
+ * Get a handover with its collections.
+ */
+router.get("/handovers/:id", adminController.getHandoverDetails);
+
+/**
+ * POST /api/admin/handovers/:id/reconcile
+ * Reconcile a handover against the cash received.
+ */
+router.post(
+    "/handovers/:id/reconcile",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(reconcileHandoverSchema),
+    adminController.reconcileHandover
+);
+
+// ============================================================================
+// SMS
+// ============================================================================
+
+/**
+ * GET /api/admin/sms/stats
+ * SMS volume, failures and cost by purpose and provider (filter: 1d, 7d, 30d).
+ */
+router.get("/sms/stats", adminController.getSmsStats);
+
+/**
+ * GET /api/admin/sms/logs
+ * List SMS sends (filter by status, phone and purpose).
+ */
+router.get("/sms/logs", adminController.getSmsLogs);
+
+// ============================================================================
+// USER SECURITY
+// ============================================================================
+
+/**
+ * POST /api/admin/users/:id/unlock
+ * Lift a user's lockout after failed login or OTP attempts.
+ */
+router.post(
+    "/users/:id/unlock",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    adminController.unlockUser
+);
+
 // ============================================================================
 // EXISTING ROUTES
 // ============================================================================
@@ -189,7 +415,7 @@ router.get("/redemptions/pending", adminController.getPendingRedemptions);
 
 /**
  * POST /api/admin/redemptions/process
- * Process redemption request.
+ * Process redemption request (mark paid, rejected or failed).
  */
 router.post(
     "/redemptions/process",
@@ -197,6 +423,44 @@ router.post(
     adminController.processRedemption
 );
 
+/**
+ * POST /api/admin/redemptions/:id/claim
+ * Claim a pending redemption (PROCESSING lock).
+ */
+router.post("/redemptions/:id/claim", adminController.claimRedemption);
+
+/**
+ * POST /api/admin/redemptions/:id/release
+ * Release a claimed redemption back to pending.
+ */
+router.post(
+    "/redemptions/:id/release",
+    validateRequest(redemptionLockSchema),
+    adminController.releaseRedemption
+);
+
+/**
+ * POST /api/admin/redemptions/:id/force-release
+ * Release another admin's claim on a redemption (super admins only).
+ */
+router.post(
+    "/redemptions/:id/force-release",
+    adminRoleGuard("SUPER_ADMIN"),
+    validateRequest(redemptionLockSchema),
+    adminController.forceReleaseRedemption
+);
+
+/**
+ * POST /api/admin/transactions/:id/reverse
+ * Reverse a deposit at any time.
+ */
+router.post(
+    "/transactions/:id/reverse",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(reverseTransactionSchema),
+    adminController.reverseTransaction
+);
+
 /**
  * GET /api/admin/dues
  * Get due list.
@@ -213,6 +477,51 @@ router.post(
     adminController.collectDue
 );
 
+/**
+ * GET /api/admin/kiosks/:id/payments
+ * Get a kiosk's due payments and outstanding amount.
+ *
+ * POST /api/admin/kiosks/:id/payments
+ * Record a payment allocated oldest-first across open dues.
+ */
+router
+    .route("/kiosks/:id/payments")
+    .get(adminController.getKioskDuePayments)
+    .post(
+        adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+        validateRequest(duePaymentSchema),
+        adminController.recordDuePayment
+    );
+
+/**
+ * GET /api/admin/due-payments/:id/receipt
+ * Get a due payment receipt.
+ */
+router.get("/due-payments/:id/receipt", adminController.getDuePaymentReceipt);
+
+/**
+ * GET /api/admin/invoices
+ * Get kiosk invoices (filter by kioskId and status).
+ */
+router.get("/invoices", adminController.getInvoices);
+
+/**
+ * GET /api/admin/invoices/:id
+ * Get an invoice with its lines and payments.
+ */
+router.get("/invoices/:id", adminController.getInvoiceDetails);
+
+/**
+ * POST /api/admin/invoices/:id/collect
+ * Collect a payment against an invoice.
+ */
+router.post(
+    "/invoices/:id/collect",
+    adminRoleGuard("SUPER_ADMIN", "EDITOR"),
+    validateRequest(duePaymentSchema),
+    adminController.collectInvoice
+);
+
 /**
  * GET /api/admin/settings
  * Get system settings.
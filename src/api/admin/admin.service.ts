@@ -1,15 +1,23 @@
 import prisma from "../../prisma.js";
 import bcrypt from "bcrypt";
-import { AdminRole } from "@prisma/client";
+import { AdminRole, Prisma, RedemptionStatus } from "@prisma/client";
 import {
     NotFoundError,
     BusinessLogicError,
+    ConflictError,
+    ValidationError,
     ErrorCode
 } from "../../utils/response.js";
 import logger from "../../utils/logger.js";
 import { errorHandler } from "../../middlewares/error.middleware.js";
 import type { Request, Response } from "express";
 import * as notificationService from "../notifications/notifications.service.js";
+import * as ledgerService from "../ledger/ledger.service.js";
+import * as transactionService from "../transactions/transaction.service.js";
+import * as walletService from "../wallet/wallet.service.js";
+import * as duesService from "../dues/dues.service.js";
+import * as bruteForceService from "../auth/bruteForce.service.js";
+import { parseCsv, toCsv } from "../../utils/csv.js";
 
 /**
  * Keys for system settings that can be configured by administrators.
@@ -19,7 +27,41 @@ export type SystemSettingKey =
     | "max_transaction_amount"
     | "max_daily_tx"
     | "max_daily_tx_to_customer"
-    | "max_kiosks";
+    | "max_kiosks"
+    | "reversal_window_minutes"
+    | "transfer_fee"
+    | "transfer_max_daily_count"
+    | "transfer_max_daily_amount"
+    | "points_expiry_mode"
+    | "points_expiry_months"
+    | "points_expiry_warning_days"
+    | "shadow_wallet_reminder_days"
+    | "shadow_wallet_expiry_days"
+    | "min_redemption"
+    | "redemption_method_vodafone_cash"
+    | "redemption_method_instapay"
+    | "redemption_method_bank_transfer"
+    | "redemption_claim_ttl_minutes"
+    | "invoice_billing_period"
+    | "owner_wallet_min_reserve"
+    | "kiosk_credit_limit"
+    | "kiosk_max_due_age_days"
+    | "kiosk_credit_warning_percent"
+    | "otp_length"
+    | "otp_ttl_minutes"
+    | "otp_max_attempts"
+    | "otp_lockout_minutes"
+    | "otp_resend_cooldown_seconds"
+    | "message_inbox_enabled"
+    | "auth_max_failed_attempts"
+    | "auth_lockout_minutes"
+    | "auth_backoff_free_attempts"
+    | "auth_backoff_max_seconds"
+    | "auth_ip_free_attempts"
+    | "transaction_pin_required"
+    | "transaction_pin_send_threshold"
+    | "transaction_pin_max_attempts"
+    | "transaction_pin_lockout_minutes";
 
 /**
  * Get admin dashboard stats.
@@ -73,14 +115,23 @@ export async function getDashboardStats(
 
         // Unpaid dues
         const unpaidDues = await prisma.kioskDue.aggregate({
-            where: { is_paid: false },
+            where: { is_paid: false, is_cancelled: false },
             _count: true,
+            _sum: { amount: true, paid_amount: true }
+        });
+
+        // Points removed by the expiry policy in period
+        const expiredPoints = await prisma.ledgerEntry.aggregate({
+            where: {
+                account: "EXPIRED_POINTS",
+                created_at: { gte: startDate }
+            },
             _sum: { amount: true }
         });
 
         // Pending redemptions
         const pendingRedemptions = await prisma.redemptionRequest.count({
-            where: { status: "PENDING" }
+            where: { status: { in: ["PENDING", "PROCESSING"] } }
         });
 
         return {
@@ -99,7 +150,8 @@ export async function getDashboardStats(
                     : 0,
                 total_circulation:
                     Number(walletBalance._sum.balance || 0) +
-                    Number(shadowBalance._sum.balance || 0)
+                    Number(shadowBalance._sum.balance || 0),
+                expired_in_period: Number(expiredPoints._sum.amount || 0)
             },
             transactions: {
                 count: transactions._count,
@@ -128,11 +180,9 @@ export async function getDashboardStats(
             },
             dues: {
                 unpaid_count: unpaidDues._count,
-                unpaid_amount: unpaidDues._sum.amount
-                    ? unpaidDues._sum.amount.toNumber
-                        ? unpaidDues._sum.amount.toNumber()
-                        : Number(unpaidDues._sum.amount)
-                    : 0
+                unpaid_amount:
+                    Number(unpaidDues._sum.amount || 0) -
+                    Number(unpaidDues._sum.paid_amount || 0)
             }
         };
     } catch (err) {
@@ -150,7 +200,7 @@ export async function getDashboardStats(
 export async function getPendingRedemptions(req: Request, res: Response) {
     try {
         const redemptions = await prisma.redemptionRequest.findMany({
-            where: { status: "PENDING" },
+            where: { status: "PENDING", payout_batch_id: null },
             include: {
                 user: {
                     select: { phone: true, role: true }
@@ -176,23 +226,235 @@ export async function getPendingRedemptions(req: Request, res: Response) {
 }
 
 /**
- * Process redemption request.
+ * Statuses a redemption can still be settled from.
+ */
+const OPEN_REDEMPTION_STATUSES: RedemptionStatus[] = ["PENDING", "PROCESSING"];
+
+/**
+ * Read how long an admin's claim on a redemption holds before another admin
+ * may take it over.
+ *
+ * @returns {Promise<number>} The claim lifetime in minutes.
+ */
+async function getRedemptionClaimTtlMinutes(): Promise<number> {
+    const setting = await prisma.systemSetting.findUnique({
+        where: { key: "redemption_claim_ttl_minutes" }
+    });
+    const minutes = Number(setting?.value ?? 30);
+    return minutes > 0 ? minutes : 30;
+}
+
+/**
+ * When an admin's claim on a redemption runs out.
+ *
+ * @param {Date | null} processingAt - When the redemption was claimed.
+ * @param {number} ttlMinutes - The claim lifetime in minutes.
+ * @returns {Date | null} The expiry, or null if the redemption is not claimed.
+ */
+function claimExpiresAt(
+    processingAt: Date | null,
+    ttlMinutes: number
+): Date | null {
+    return processingAt
+        ? new Date(processingAt.getTime() + ttlMinutes * 60 * 1000)
+        : null;
+}
+
+/**
+ * Move a redemption to a new status and record it in its history.
+ * The status guard makes a concurrent change of the same request fail.
  *
+ * @param {Prisma.TransactionClient} tx - The Prisma transaction client.
  * @param {string} redemptionId - The ID of the redemption request.
- * @param {"APPROVE" | "REJECT"} action - The action to perform.
- * @param {Request} req - The Express request object.
- * @param {Response} res - The Express response object.
- * @param {string} [note] - Optional note from admin.
+ * @param {RedemptionStatus[]} from - Statuses the request must currently be in.
+ * @param {RedemptionStatus} to - The new status.
+ * @param {object} data - Extra fields to store on the request.
+ * @param {string | null} actorId - The admin making the change.
+ * @param {string} [note] - Optional note for the history entry.
+ * @param {object} [guard] - Extra conditions the request must still meet.
+ * @returns {Promise<RedemptionStatus>} The previous status.
+ */
+async function transitionRedemption(
+    tx: Prisma.TransactionClient,
+    redemptionId: string,
+    from: RedemptionStatus[],
+    to: RedemptionStatus,
+    data: Prisma.RedemptionRequestUpdateManyMutationInput,
+    actorId: string | null,
+    note?: string,
+    guard?: Prisma.RedemptionRequestWhereInput
+): Promise<RedemptionStatus> {
+    const current = await tx.redemptionRequest.findUnique({
+        where: { id: redemptionId },
+        select: { status: true }
+    });
+
+    const { count } = await tx.redemptionRequest.updateMany({
+        where: { ...guard, id: redemptionId, status: { in: from } },
+        data: { ...data, status: to }
+    });
+    if (!current || count === 0) {
+        throw new ConflictError(
+            `Redemption is already ${current?.status.toLowerCase() || "processed"}`
+        );
+    }
+
+    await tx.redemptionStatusHistory.create({
+        data: {
+            redemption_id: redemptionId,
+            from_status: current.status,
+            to_status: to,
+            actor_id: actorId,
+            note
+        }
+    });
+
+    return current.status;
+}
+
+/**
+ * Settle an open redemption inside an open Prisma transaction.
+ * PAID releases the payable to cash; FAILED and REJECTED refund the
+ * amount to the wallet (the fee is kept).
+ *
+ * @param {Prisma.TransactionClient} tx - The Prisma transaction client.
+ * @param {object} redemption - The redemption with its user's role.
+ * @param {"PAID" | "FAILED" | "REJECTED"} outcome - The final status.
+ * @param {object} data - Admin note, payout reference and proof to store.
+ * @param {string | null} actorId - The admin settling the request.
  * @returns {Promise<object>} The updated redemption request.
- * @throws {Error} If the redemption request is not found.
- * @throws {Error} If the redemption request is not pending.
  */
-export async function processRedemption(
+async function settleRedemption(
+    tx: Prisma.TransactionClient,
+    redemption: {
+        id: string;
+        user_id: string;
+        amount: Prisma.Decimal;
+        user: { role: string };
+    },
+    outcome: "PAID" | "FAILED" | "REJECTED",
+    data: {
+        admin_note?: string;
+        provider_reference?: string;
+        proof_reference?: string;
+    },
+    actorId: string | null
+) {
+    const amount = redemption.amount.toNumber();
+    const refunded = outcome !== "PAID";
+
+    await transitionRedemption(
+        tx,
+        redemption.id,
+        OPEN_REDEMPTION_STATUSES,
+        outcome,
+        { ...data, processing_by: null },
+        actorId,
+        data.admin_note
+    );
+
+    // If rejected or failed, refund points to user
+    if (refunded) {
+        await tx.wallet.update({
+            where: { user_id: redemption.user_id },
+            data: { balance: { increment: amount } }
+        });
+    }
+
+    // Post ledger journal: release the payable to cash or back to the wallet
+    await ledgerService.recordJournal(
+        tx,
+        { type: "REDEMPTION", redemption_id: redemption.id },
+        [
+            {
+                account: "REDEMPTION_PAYABLE",
+                direction: "DEBIT",
+                amount
+            },
+            refunded
+                ? ledgerService.walletLine(
+                      redemption.user.role,
+                      redemption.user_id,
+                      "CREDIT",
+                      amount
+                  )
+                : {
+                      account: "CASH_PAYOUT",
+                      direction: "CREDIT",
+                      amount
+                  }
+        ],
+        `Redemption ${outcome.toLowerCase()}`
+    );
+
+    return await tx.redemptionRequest.findUnique({
+        where: { id: redemption.id }
+    });
+}
+
+/**
+ * Check that an admin may act on a redemption outside of a payout batch.
+ * Another admin's claim blocks the request until it expires.
+ *
+ * @returns {BusinessLogicError | null} The error to report, or null if allowed.
+ */
+function redemptionLockError(
+    redemption: {
+        status: RedemptionStatus;
+        payout_batch_id: string | null;
+        processing_by: string | null;
+        processing_at: Date | null;
+    },
+    adminId: string,
+    claimTtlMinutes: number
+) {
+    if (!OPEN_REDEMPTION_STATUSES.includes(redemption.status)) {
+        return new BusinessLogicError(
+            `Redemption is already ${redemption.status.toLowerCase()}`,
+            ErrorCode.RESOURCE_CONFLICT
+        );
+    }
+
+    if (redemption.payout_batch_id) {
+        return new BusinessLogicError(
+            "Redemption is locked in a payout batch and must be settled through it",
+            ErrorCode.RESOURCE_CONFLICT,
+            { payout_batch_id: redemption.payout_batch_id }
+        );
+    }
+
+    const expiresAt = claimExpiresAt(redemption.processing_at, claimTtlMinutes);
+    if (
+        redemption.status === "PROCESSING" &&
+        redemption.processing_by !== adminId &&
+        (!expiresAt || expiresAt > new Date())
+    ) {
+        return new BusinessLogicError(
+            "Redemption is being processed by another admin",
+            ErrorCode.RESOURCE_CONFLICT,
+            {
+                processing_by: redemption.processing_by,
+                claim_expires_at: expiresAt
+            }
+        );
+    }
+
+    return null;
+}
+
+/**
+ * Claim a pending redemption (PROCESSING lock) so no other admin handles it.
+ * A claim that has run past redemption_claim_ttl_minutes can be taken over.
+ *
+ * @param {string} redemptionId - The ID of the redemption request.
+ * @param {string} adminId - The ID of the admin claiming the request.
+ * @returns {Promise<object>} The updated redemption request.
+ */
+export async function claimRedemption(
     redemptionId: string,
-    action: "APPROVE" | "REJECT",
+    adminId: string,
     req: Request,
-    res: Response,
-    note?: string
+    res: Response
 ) {
     try {
         const redemption = await prisma.redemptionRequest.findUnique({
@@ -205,9 +467,15 @@ export async function processRedemption(
                 req,
                 res
             );
+            return null;
         }
 
-        if (redemption.status !== "PENDING") {
+        const claimTtlMinutes = await getRedemptionClaimTtlMinutes();
+        const takeover =
+            redemption.status === "PROCESSING" &&
+            redemption.processing_by !== adminId;
+
+        if (redemption.status !== "PENDING" && !takeover) {
             errorHandler(
                 new BusinessLogicError(
                     `Redemption is already ${redemption.status.toLowerCase()}`,
@@ -216,42 +484,305 @@ export async function processRedemption(
                 req,
                 res
             );
+            return null;
         }
 
-        const status = action === "APPROVE" ? "COMPLETED" : "REJECTED";
+        const lockError = redemptionLockError(
+            redemption,
+            adminId,
+            claimTtlMinutes
+        );
+        if (lockError) {
+            errorHandler(lockError, req, res);
+            return null;
+        }
 
         const updated = await prisma.$transaction(async (tx) => {
-            // If rejected, refund points to user
-            if (action === "REJECT") {
-                const amount = redemption.amount.toNumber
-                    ? redemption.amount.toNumber()
-                    : Number(redemption.amount);
-                await tx.wallet.update({
-                    where: { user_id: redemption.user_id },
-                    data: { balance: { increment: amount } }
-                });
+            // Taking over an expired claim only succeeds if nobody else
+            // changed it in the meantime
+            await transitionRedemption(
+                tx,
+                redemptionId,
+                [redemption.status],
+                "PROCESSING",
+                { processing_by: adminId, processing_at: new Date() },
+                adminId,
+                takeover ? "Expired claim taken over" : undefined,
+                takeover
+                    ? {
+                          processing_by: redemption.processing_by,
+                          processing_at: redemption.processing_at
+                      }
+                    : undefined
+            );
+            return await tx.redemptionRequest.findUnique({
+                where: { id: redemptionId }
+            });
+        });
+
+        await logAdminAction(
+            adminId,
+            "CLAIM_REDEMPTION",
+            redemptionId,
+            takeover ? { taken_over_from: redemption.processing_by } : undefined
+        );
+        return updated;
+    } catch (err) {
+        logger.error(`Error claiming redemption: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Release a claimed redemption back to PENDING.
+ *
+ * @param {string} redemptionId - The ID of the redemption request.
+ * @param {string} adminId - The ID of the admin releasing the request.
+ * @param {string} [note] - Optional reason.
+ * @returns {Promise<object>} The updated redemption request.
+ */
+export async function releaseRedemption(
+    redemptionId: string,
+    adminId: string,
+    req: Request,
+    res: Response,
+    note?: string
+) {
+    try {
+        const redemption = await findClaimedRedemption(redemptionId, req, res);
+        if (!redemption) return null;
+
+        const lockError = redemptionLockError(
+            redemption,
+            adminId,
+            await getRedemptionClaimTtlMinutes()
+        );
+        if (lockError) {
+            errorHandler(lockError, req, res);
+            return null;
+        }
+
+        const updated = await unclaimRedemption(redemptionId, adminId, note);
+
+        await logAdminAction(adminId, "RELEASE_REDEMPTION", redemptionId, {
+            note
+        });
+        return updated;
+    } catch (err) {
+        logger.error(`Error releasing redemption: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Release another admin's claim on a redemption, whether or not it has
+ * expired (super admins only). Requests locked in a payout batch must still
+ * be settled through the batch.
+ *
+ * @param {string} redemptionId - The ID of the redemption request.
+ * @param {string} adminId - The ID of the super admin releasing the request.
+ * @param {string} [note] - Optional reason.
+ * @returns {Promise<object>} The updated redemption request.
+ */
+export async function forceReleaseRedemption(
+    redemptionId: string,
+    adminId: string,
+    req: Request,
+    res: Response,
+    note?: string
+) {
+    try {
+        const redemption = await findClaimedRedemption(redemptionId, req, res);
+        if (!redemption) return null;
+
+        if (redemption.payout_batch_id) {
+            errorHandler(
+                new BusinessLogicError(
+                    "Redemption is locked in a payout batch and must be settled through it",
+                    ErrorCode.RESOURCE_CONFLICT,
+                    { payout_batch_id: redemption.payout_batch_id }
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const updated = await unclaimRedemption(
+            redemptionId,
+            adminId,
+            note || "Claim force-released"
+        );
+
+        await logAdminAction(
+            adminId,
+            "FORCE_RELEASE_REDEMPTION",
+            redemptionId,
+            {
+                processing_by: redemption.processing_by,
+                processing_at: redemption.processing_at,
+                note
             }
+        );
+        return updated;
+    } catch (err) {
+        logger.error(`Error force-releasing redemption: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
 
-            return await tx.redemptionRequest.update({
-                where: { id: redemptionId },
-                data: { status, admin_note: note }
-            });
+/**
+ * Find a redemption that is being processed, reporting an error otherwise.
+ *
+ * @param {string} redemptionId - The ID of the redemption request.
+ * @returns {Promise<object | null>} The redemption request, or null on error.
+ */
+async function findClaimedRedemption(
+    redemptionId: string,
+    req: Request,
+    res: Response
+) {
+    const redemption = await prisma.redemptionRequest.findUnique({
+        where: { id: redemptionId }
+    });
+
+    if (!redemption) {
+        errorHandler(
+            new NotFoundError("Redemption request not found"),
+            req,
+            res
+        );
+        return null;
+    }
+
+    if (redemption.status !== "PROCESSING") {
+        errorHandler(
+            new BusinessLogicError(
+                "Only a redemption being processed can be released",
+                ErrorCode.RESOURCE_CONFLICT
+            ),
+            req,
+            res
+        );
+        return null;
+    }
+
+    return redemption;
+}
+
+/**
+ * Put a claimed redemption back to PENDING.
+ *
+ * @param {string} redemptionId - The ID of the redemption request.
+ * @param {string} adminId - The ID of the admin releasing the request.
+ * @param {string} [note] - Optional note for the history entry.
+ * @returns {Promise<object>} The updated redemption request.
+ */
+async function unclaimRedemption(
+    redemptionId: string,
+    adminId: string,
+    note?: string
+) {
+    return await prisma.$transaction(async (tx) => {
+        await transitionRedemption(
+            tx,
+            redemptionId,
+            ["PROCESSING"],
+            "PENDING",
+            { processing_by: null, processing_at: null },
+            adminId,
+            note,
+            { payout_batch_id: null }
+        );
+        return await tx.redemptionRequest.findUnique({
+            where: { id: redemptionId }
         });
+    });
+}
 
-        logger.info(`Redemption ${action.toLowerCase()}: ${redemptionId}`);
+/**
+ * Process redemption request.
+ * APPROVE marks it PAID with the payout reference, REJECT refuses it and
+ * FAIL records a failed payout; both refund the amount.
+ *
+ * @param {string} redemptionId - The ID of the redemption request.
+ * @param {"APPROVE" | "REJECT" | "FAIL"} action - The action to perform.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @param {object} data - Optional note, payout reference and proof-of-payment reference.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object>} The updated redemption request.
+ */
+export async function processRedemption(
+    redemptionId: string,
+    action: "APPROVE" | "REJECT" | "FAIL",
+    adminId: string,
+    data: { note?: string; reference?: string; proof?: string },
+    req: Request,
+    res: Response
+) {
+    try {
+        const redemption = await prisma.redemptionRequest.findUnique({
+            where: { id: redemptionId },
+            include: { user: { select: { role: true } } }
+        });
 
-        // Notify the user about their redemption status
-        const user = await prisma.user.findUnique({
-            where: { id: redemption.user_id }
-        });
-        if (user) {
-            await notificationService.notifyWorkerRedemptionProcessed(
-                redemption.user_id,
-                action === "APPROVE",
-                redemption.amount.toString()
+        if (!redemption) {
+            errorHandler(
+                new NotFoundError("Redemption request not found"),
+                req,
+                res
             );
+            return null;
         }
 
+        const lockError = redemptionLockError(
+            redemption,
+            adminId,
+            await getRedemptionClaimTtlMinutes()
+        );
+        if (lockError) {
+            errorHandler(lockError, req, res);
+            return null;
+        }
+
+        const outcome =
+            action === "APPROVE"
+                ? "PAID"
+                : action === "FAIL"
+                  ? "FAILED"
+                  : "REJECTED";
+
+        const updated = await prisma.$transaction((tx) =>
+            settleRedemption(
+                tx,
+                redemption,
+                outcome,
+                {
+                    admin_note: data.note,
+                    provider_reference: data.reference,
+                    proof_reference: data.proof
+                },
+                adminId
+            )
+        );
+
+        logger.info(`Redemption ${outcome.toLowerCase()}: ${redemptionId}`);
+        await logAdminAction(adminId, "PROCESS_REDEMPTION", redemptionId, {
+            action,
+            ...data
+        });
+
+        // Notify the user about their redemption status
+        await notificationService.notifyWorkerRedemptionProcessed(
+            redemption.user_id,
+            outcome === "PAID",
+            redemption.amount.toString()
+        );
+
         return updated;
     } catch (err) {
         logger.error(`Error processing redemption: ${err}`);
@@ -260,6 +791,38 @@ export async function processRedemption(
     }
 }
 
+/**
+ * Reverse a deposit (admins are not bound by the owner reversal window).
+ *
+ * @param {string} transactionId - The ID of the transaction to reverse.
+ * @param {string} reason - Why the deposit is being reversed.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The reversal record.
+ */
+export async function reverseTransaction(
+    transactionId: string,
+    reason: string,
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    const reversal = await transactionService.reverseTransaction(
+        transactionId,
+        adminId,
+        true,
+        reason,
+        req,
+        res
+    );
+    if (!reversal) return null;
+
+    await logAdminAction(adminId, "REVERSE_TRANSACTION", transactionId, {
+        reason,
+        reversalId: reversal.id
+    });
+    return reversal;
+}
+
 /**
  * Get due list.
  *
@@ -269,7 +832,7 @@ export async function processRedemption(
 export async function getDueList(req: Request, res: Response) {
     try {
         const dues = await prisma.kioskDue.findMany({
-            where: { is_paid: false },
+            where: { is_paid: false, is_cancelled: false },
             orderBy: { created_at: "desc" }
         });
 
@@ -277,6 +840,8 @@ export async function getDueList(req: Request, res: Response) {
             id: d.id,
             kiosk_id: d.kiosk_id,
             amount: d.amount.toString(),
+            paid_amount: d.paid_amount.toString(),
+            remaining_amount: duesService.remainingOf(d).toString(),
             is_paid: d.is_paid,
             created_at: d.created_at
         }));
@@ -288,16 +853,22 @@ export async function getDueList(req: Request, res: Response) {
 }
 
 /**
- * Collect due.
+ * Collect due (pays its full remaining amount).
  *
  * @param {string} dueId - The ID of the due to collect.
+ * @param {string} adminId - The ID of the collecting admin.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
- * @returns {Promise<object>} The updated due.
+ * @returns {Promise<object>} The updated due and the payment receipt number.
  * @throws {Error} If the due is not found.
  * @throws {Error} If the due is already paid.
  */
-export async function collectDue(dueId: string, req: Request, res: Response) {
+export async function collectDue(
+    dueId: string,
+    adminId: string,
+    req: Request,
+    res: Response
+) {
     try {
         const due = await prisma.kioskDue.findUnique({
             where: { id: dueId }
@@ -305,6 +876,7 @@ export async function collectDue(dueId: string, req: Request, res: Response) {
 
         if (!due) {
             errorHandler(new NotFoundError("Due not found"), req, res);
+            return null;
         }
 
         if (due.is_paid) {
@@ -316,35 +888,72 @@ export async function collectDue(dueId: string, req: Request, res: Response) {
                 req,
                 res
             );
+            return null;
         }
 
-        const updated = await prisma.kioskDue.update({
-            where: { id: dueId },
-            data: { is_paid: true }
-        });
+        if (due.is_cancelled) {
+            errorHandler(
+                new BusinessLogicError(
+                    "Due was cancelled by a transaction reversal",
+                    ErrorCode.RESOURCE_CONFLICT
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const result = await prisma.$transaction((tx) =>
+            duesService.allocatePayment(tx, {
+                kiosk_id: due.kiosk_id,
+                amount: duesService.remainingOf(due),
+                collected_by: adminId,
+                due_ids: [dueId]
+            })
+        );
 
         logger.info(`Due collected: ${dueId}`);
+        await logAdminAction(adminId, "COLLECT_DUE", dueId, {
+            payment_id: result.payment.id,
+            receipt_number: result.payment.receipt_number
+        });
 
-        // Notify owner: Due paid
-        const kiosk = await prisma.kiosk.findUnique({
-            where: { id: due.kiosk_id }
-        });
-        if (kiosk) {
-            await notificationService.notifyOwnerDuePaid(
-                kiosk.owner_id,
-                kiosk.name,
-                due.amount.toString(),
-                false // fully paid
-            );
-        }
+        await notifyDuePayment(due.kiosk_id, result);
 
-        return updated;
-    } catch (err) {
+        const updated = await prisma.kioskDue.findUnique({
+            where: { id: dueId }
+        });
+        return { ...updated, receipt_number: result.payment.receipt_number };
+    } catch (err) {
         logger.error(`Error collecting due: ${err}`);
         errorHandler(err, req, res);
         return null;
     }
 }
+
+/**
+ * Notify a kiosk owner about a recorded due payment.
+ */
+async function notifyDuePayment(
+    kioskId: string,
+    result: {
+        payment: { amount: Prisma.Decimal };
+        outstanding_after: Prisma.Decimal;
+    }
+) {
+    const kiosk = await prisma.kiosk.findUnique({
+        where: { id: kioskId }
+    });
+    if (kiosk) {
+        await notificationService.notifyOwnerDuePaid(
+            kiosk.owner_id,
+            kiosk.name,
+            result.payment.amount.toString(),
+            result.outstanding_after.gt(0)
+        );
+    }
+}
+
 /**
  * Log an admin action.
  *
@@ -420,6 +1029,46 @@ export async function updateSystemSetting(
     description?: string
 ) {
     try {
+        if (key.startsWith("redemption_method_")) {
+            const error = walletService.validateRedemptionRule(value);
+            if (error) {
+                errorHandler(new ValidationError(error), req, res);
+                return null;
+            }
+        }
+
+        if (
+            key === "invoice_billing_period" &&
+            !duesService.BILLING_PERIODS.includes(
+                value as duesService.BillingPeriod
+            )
+        ) {
+            errorHandler(
+                new ValidationError(
+                    `Billing period must be one of ${duesService.BILLING_PERIODS.join(", ")}`
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (
+            key === "otp_length" &&
+            !(
+                Number.isInteger(Number(value)) &&
+                Number(value) >= 4 &&
+                Number(value) <= 8
+            )
+        ) {
+            errorHandler(
+                new ValidationError("OTP length must be between 4 and 8"),
+                req,
+                res
+            );
+            return null;
+        }
+
         const strValue =
             typeof value === "string" ? value : JSON.stringify(value);
 
@@ -562,9 +1211,13 @@ async function updateUserStatusHelper(
         data = { is_verified: false, is_active: false };
     }
 
+    // Bumping the token version signs the user out of outstanding tokens
     const updated = await prisma.user.update({
         where: { id },
-        data
+        data: {
+            ...(data as Prisma.UserUpdateInput),
+            token_version: { increment: 1 }
+        }
     });
     await logAdminAction(adminId, "UPDATE_USER_STATUS", id, { status, note });
     return updated;
@@ -658,8 +1311,14 @@ export async function getOwnerDetails(id: string, req: Request, res: Response) {
                 }
             }
         });
-        if (!owner) errorHandler(new Error("Owner not found"), req, res);
-        return owner;
+        if (!owner) {
+            errorHandler(new Error("Owner not found"), req, res);
+            return null;
+        }
+        return {
+            ...owner,
+            security: await bruteForceService.getPhoneSecurity(owner.phone)
+        };
     } catch (err) {
         logger.error(`Error getting owner details: ${err}`);
         errorHandler(err, req, res);
@@ -703,7 +1362,10 @@ export async function updateOwner(
     try {
         const updated = await prisma.user.update({
             where: { id },
-            data
+            data: {
+                ...(data as Prisma.UserUpdateInput),
+                token_version: { increment: 1 }
+            }
         });
         await logAdminAction(adminId, "UPDATE_OWNER", id, data);
         return updated;
@@ -732,11 +1394,49 @@ export async function adjustBalance(
     res: Response
 ) {
     try {
-        const updated = await prisma.wallet.update({
-            where: { user_id: id },
-            data: { balance: { increment: amount } }
+        const updated = await prisma.$transaction(async (tx) => {
+            const wallet = await tx.wallet.update({
+                where: { user_id: id },
+                data: { balance: { increment: amount } }
+            });
+            const user = await tx.user.findUnique({
+                where: { id },
+                select: { role: true }
+            });
+
+            const log = await tx.auditLog.create({
+                data: {
+                    admin_id: adminId,
+                    action: "ADJUST_BALANCE",
+                    target_id: id,
+                    details: JSON.stringify({ amount, reason }),
+                    ip_address: "0.0.0.0"
+                }
+            });
+
+            // Post ledger journal against the adjustment account
+            const magnitude = Math.abs(amount);
+            await ledgerService.recordJournal(
+                tx,
+                { type: "ADMIN_ADJUSTMENT", audit_log_id: log.id },
+                [
+                    ledgerService.walletLine(
+                        user.role,
+                        id,
+                        amount >= 0 ? "CREDIT" : "DEBIT",
+                        magnitude
+                    ),
+                    {
+                        account: "ADJUSTMENT",
+                        direction: amount >= 0 ? "DEBIT" : "CREDIT",
+                        amount: magnitude
+                    }
+                ],
+                reason
+            );
+
+            return wallet;
         });
-        await logAdminAction(adminId, "ADJUST_BALANCE", id, { amount, reason });
         return updated;
     } catch (err) {
         logger.error(`Error adjusting balance: ${err}`);
@@ -820,8 +1520,12 @@ export async function getKioskDetails(id: string, req: Request, res: Response) {
                 dues: { orderBy: { created_at: "desc" }, take: 5 }
             }
         });
-        if (!kiosk) errorHandler(new Error("Kiosk not found"), req, res);
-        return kiosk;
+        if (!kiosk) {
+            errorHandler(new Error("Kiosk not found"), req, res);
+            return null;
+        }
+        const credit = await duesService.getCreditExposure(id);
+        return { ...kiosk, credit };
     } catch (err) {
         logger.error(`Error getting kiosk details: ${err}`);
         errorHandler(err, req, res);
@@ -928,6 +1632,104 @@ export async function updateKioskStatus(
     }
 }
 
+/**
+ * Update a kiosk's transaction limit overrides. Null resets a limit to the
+ * global setting. The kiosk limits are also the ceilings for worker overrides.
+ * @param {string} id - The ID of the kiosk.
+ * @param {object} limits - The limit overrides.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The updated kiosk.
+ */
+export async function updateKioskLimits(
+    id: string,
+    limits: {
+        max_transaction_amount?: number | null;
+        max_daily_tx?: number | null;
+        max_daily_tx_to_customer?: number | null;
+    },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await prisma.kiosk.findUnique({
+            where: { id }
+        });
+
+        if (!kiosk) {
+            errorHandler(new NotFoundError("Kiosk not found"), req, res);
+            return null;
+        }
+
+        const updated = await prisma.kiosk.update({
+            where: { id },
+            data: limits
+        });
+        await logAdminAction(adminId, "UPDATE_KIOSK_LIMITS", id, {
+            before: {
+                max_transaction_amount: kiosk.max_transaction_amount,
+                max_daily_tx: kiosk.max_daily_tx,
+                max_daily_tx_to_customer: kiosk.max_daily_tx_to_customer
+            },
+            after: limits
+        });
+
+        return updated;
+    } catch (err) {
+        logger.error(`Error updating kiosk limits: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Update kiosk credit policy overrides.
+ * @param {string} id - The ID of the kiosk.
+ * @param {object} policy - Credit limit and maximum due age (null resets to the global setting, 0 = unlimited).
+ * @param {string} adminId - The ID of the admin performing the update.
+ * @returns {Promise<object>} The updated kiosk with its credit exposure.
+ */
+export async function updateKioskCreditPolicy(
+    id: string,
+    policy: {
+        credit_limit?: number | null;
+        max_due_age_days?: number | null;
+    },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await prisma.kiosk.findUnique({
+            where: { id }
+        });
+
+        if (!kiosk) {
+            errorHandler(new NotFoundError("Kiosk not found"), req, res);
+            return null;
+        }
+
+        const updated = await prisma.kiosk.update({
+            where: { id },
+            data: policy
+        });
+        await logAdminAction(adminId, "UPDATE_KIOSK_CREDIT_POLICY", id, {
+            before: {
+                credit_limit: kiosk.credit_limit,
+                max_due_age_days: kiosk.max_due_age_days
+            },
+            after: policy
+        });
+
+        const credit = await duesService.getCreditExposure(id);
+        return { ...updated, credit };
+    } catch (err) {
+        logger.error(`Error updating kiosk credit policy: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
 // ============================================================================
 // WORKER SERVICES
 // ============================================================================
@@ -1018,8 +1820,14 @@ export async function getWorkerDetails(
                 goals: true
             }
         });
-        if (!worker) errorHandler(new Error("Worker not found"), req, res);
-        return worker;
+        if (!worker) {
+            errorHandler(new Error("Worker not found"), req, res);
+            return null;
+        }
+        return {
+            ...worker,
+            security: await bruteForceService.getPhoneSecurity(worker.phone)
+        };
     } catch (err) {
         logger.error(`Error getting worker details: ${err}`);
         errorHandler(err, req, res);
@@ -1179,8 +1987,14 @@ export async function getCustomerDetails(
                 goals: true
             }
         });
-        if (!customer) errorHandler(new Error("Customer not found"), req, res);
-        return customer;
+        if (!customer) {
+            errorHandler(new Error("Customer not found"), req, res);
+            return null;
+        }
+        return {
+            ...customer,
+            security: await bruteForceService.getPhoneSecurity(customer.phone)
+        };
     } catch (err) {
         logger.error(`Error getting customer details: ${err}`);
         errorHandler(err, req, res);
@@ -1205,3 +2019,1596 @@ export async function updateCustomerStatus(
 ) {
     return updateUserStatusHelper(id, status, adminId, note);
 }
+
+// ============================================================================
+// COMMISSION RULE SERVICES
+// ============================================================================
+
+/**
+ * Get commission rules.
+ * @param {object} filters - Filter by scope, kiosk, and active state.
+ * @returns {Promise<object>} The commission rules, newest version first.
+ */
+export async function getCommissionRules(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { scope, kioskId, kioskType, active } = filters;
+
+        const where: { [key: string]: unknown } = {};
+        if (scope) where.scope = scope;
+        if (kioskId) where.kiosk_id = kioskId;
+        if (kioskType) where.kiosk_type = kioskType;
+        if (active !== undefined) where.is_active = active === "true";
+
+        const rules = await prisma.commissionRule.findMany({
+            where,
+            include: { kiosk: { select: { id: true, name: true } } },
+            orderBy: [{ scope: "asc" }, { version: "desc" }]
+        });
+
+        return rules.map((r) => ({
+            ...r,
+            tiers: r.tiers ? JSON.parse(r.tiers) : null
+        }));
+    } catch (err) {
+        logger.error(`Error getting commission rules: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Publish a commission rule. Creates the next version for the target
+ * (global, kiosk type or kiosk) and deactivates the current one.
+ * @param {object} data - The rule definition.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The created rule.
+ */
+export async function createCommissionRule(
+    data: {
+        scope: "GLOBAL" | "KIOSK_TYPE" | "KIOSK";
+        kiosk_type?: string;
+        kiosk_id?: string;
+        model: "FLAT" | "PERCENTAGE" | "TIERED";
+        value?: number;
+        tiers?: { up_to: number | null; model: string; value: number }[];
+        min_commission?: number;
+        max_commission?: number;
+    },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        if (data.scope === "KIOSK") {
+            const kiosk = await prisma.kiosk.findUnique({
+                where: { id: data.kiosk_id }
+            });
+            if (!kiosk) {
+                errorHandler(new NotFoundError("Kiosk not found"), req, res);
+                return null;
+            }
+        }
+
+        const target = {
+            scope: data.scope,
+            kiosk_type: data.scope === "KIOSK_TYPE" ? data.kiosk_type : null,
+            kiosk_id: data.scope === "KIOSK" ? data.kiosk_id : null
+        };
+
+        const rule = await prisma.$transaction(async (tx) => {
+            const latest = await tx.commissionRule.findFirst({
+                where: target,
+                orderBy: { version: "desc" }
+            });
+
+            await tx.commissionRule.updateMany({
+                where: { ...target, is_active: true },
+                data: { is_active: false }
+            });
+
+            return await tx.commissionRule.create({
+                data: {
+                    ...target,
+                    model: data.model,
+                    value: data.model === "TIERED" ? null : data.value,
+                    tiers:
+                        data.model === "TIERED"
+                            ? JSON.stringify(data.tiers)
+                            : null,
+                    min_commission: data.min_commission,
+                    max_commission: data.max_commission,
+                    version: (latest?.version || 0) + 1,
+                    created_by: adminId
+                }
+            });
+        });
+
+        await logAdminAction(adminId, "CREATE_COMMISSION_RULE", rule.id, data);
+        logger.info(
+            `Commission rule ${rule.id} v${rule.version} published for ${rule.scope}`
+        );
+        return rule;
+    } catch (err) {
+        logger.error(`Error creating commission rule: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Deactivate a commission rule. The target falls back to the next
+ * less specific rule (kiosk → kiosk type → global → commission_rate).
+ * @param {string} id - The ID of the rule.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The deactivated rule.
+ */
+export async function deactivateCommissionRule(
+    id: string,
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const rule = await prisma.commissionRule.findUnique({ where: { id } });
+        if (!rule) {
+            errorHandler(
+                new NotFoundError("Commission rule not found"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const updated = await prisma.commissionRule.update({
+            where: { id },
+            data: { is_active: false }
+        });
+
+        await logAdminAction(adminId, "DEACTIVATE_COMMISSION_RULE", id);
+        return updated;
+    } catch (err) {
+        logger.error(`Error deactivating commission rule: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// SHADOW WALLET SERVICES
+// ============================================================================
+
+/**
+ * Get shadow wallets (unclaimed balances) with filters.
+ * @param {object} filters - Search by phone, status (active/expired), pagination.
+ * @returns {Promise<object>} The shadow wallets with age, source kiosks and totals.
+ */
+export async function getShadowWallets(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { search, status, page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (search) {
+            where.phone = { contains: search };
+        }
+        if (status === "active") {
+            where.balance = { gt: 0 };
+        } else if (status === "expired") {
+            where.expired_at = { not: null };
+        }
+
+        const [wallets, total, totals] = await Promise.all([
+            prisma.shadowWallet.findMany({
+                where,
+                skip,
+                take: Number(limit),
+                orderBy: { balance: "desc" }
+            }),
+            prisma.shadowWallet.count({ where }),
+            prisma.shadowWallet.aggregate({
+                where: { balance: { gt: 0 } },
+                _count: true,
+                _sum: { balance: true }
+            })
+        ]);
+
+        // Source kiosks per phone from the deposits that funded them
+        const phones = wallets.map((w) => w.phone);
+        const sources = await prisma.transaction.groupBy({
+            by: ["receiver_phone", "kiosk_id"],
+            where: {
+                receiver_phone: { in: phones },
+                type: "DEPOSIT",
+                status: "COMPLETED"
+            },
+            _count: true,
+            _sum: { amount_net: true }
+        });
+        const kiosks = await prisma.kiosk.findMany({
+            where: {
+                id: {
+                    in: [...new Set(sources.map((s) => s.kiosk_id))].filter(
+                        Boolean
+                    )
+                }
+            },
+            select: { id: true, name: true }
+        });
+        const kioskNames = new Map(kiosks.map((k) => [k.id, k.name]));
+
+        const now = Date.now();
+        const shadowWallets = wallets.map((w) => ({
+            phone: w.phone,
+            balance: w.balance.toString(),
+            created_at: w.created_at,
+            last_deposit_at: w.last_deposit_at,
+            age_days: Math.floor(
+                (now - w.created_at.getTime()) / (1000 * 60 * 60 * 24)
+            ),
+            reminders_sent: w.reminders_sent,
+            last_sms_at: w.last_sms_at,
+            expired_at: w.expired_at,
+            source_kiosks: sources
+                .filter((s) => s.receiver_phone === w.phone)
+                .map((s) => ({
+                    id: s.kiosk_id,
+                    name: kioskNames.get(s.kiosk_id) || null,
+                    deposits: s._count,
+                    amount: Number(s._sum.amount_net || 0)
+                }))
+        }));
+
+        return {
+            shadowWallets,
+            summary: {
+                unclaimed_count: totals._count,
+                unclaimed_balance: Number(totals._sum.balance || 0)
+            },
+            total,
+            page: Number(page),
+            limit: Number(limit)
+        };
+    } catch (err) {
+        logger.error(`Error getting shadow wallets: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// RECONCILIATION SERVICES
+// ============================================================================
+
+/**
+ * Get reconciliation runs, newest first.
+ * @param {object} filters - Pagination and status filters.
+ * @returns {Promise<object>} The runs with pagination info.
+ */
+export async function getReconciliationRuns(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { status, page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (status) {
+            where.status = status;
+        }
+
+        const [runs, total] = await Promise.all([
+            prisma.reconciliationRun.findMany({
+                where,
+                skip,
+                take: Number(limit),
+                orderBy: { started_at: "desc" }
+            }),
+            prisma.reconciliationRun.count({ where })
+        ]);
+
+        return { runs, total, page: Number(page), limit: Number(limit) };
+    } catch (err) {
+        logger.error(`Error getting reconciliation runs: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get a reconciliation run with its drift report.
+ * @param {string} id - The ID of the run.
+ * @returns {Promise<object>} The run and its issues.
+ */
+export async function getReconciliationRunDetails(
+    id: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const run = await prisma.reconciliationRun.findUnique({
+            where: { id },
+            include: {
+                issues: { orderBy: { difference: "desc" } }
+            }
+        });
+
+        if (!run) {
+            errorHandler(
+                new NotFoundError("Reconciliation run not found"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        return {
+            ...run,
+            issues: run.issues.map((issue) => ({
+                ...issue,
+                breakdown: issue.breakdown ? JSON.parse(issue.breakdown) : null
+            }))
+        };
+    } catch (err) {
+        logger.error(`Error getting reconciliation run: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Run a reconciliation on demand.
+ * @param {string} adminId - The ID of the admin triggering the run.
+ * @returns {Promise<object>} The finished run.
+ */
+export async function triggerReconciliation(
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const run = await ledgerService.reconcileWallets(adminId);
+        await logAdminAction(adminId, "RUN_RECONCILIATION", run.id, {
+            status: run.status,
+            issues: run.issues_count
+        });
+        return run;
+    } catch (err) {
+        logger.error(`Error running reconciliation: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// PAYOUT BATCH SERVICES
+// ============================================================================
+
+/**
+ * Columns of the provider payout file.
+ */
+const PAYOUT_EXPORT_HEADERS = [
+    "redemption_id",
+    "method",
+    "type",
+    "amount",
+    "account",
+    "beneficiary_name",
+    "beneficiary_phone",
+    "requested_at"
+];
+
+/**
+ * Settlement file statuses and the redemption outcome they map to.
+ */
+const SETTLEMENT_STATUSES: Record<string, "PAID" | "FAILED" | "REJECTED"> = {
+    PAID: "PAID",
+    COMPLETED: "PAID",
+    FAILED: "FAILED",
+    REJECTED: "REJECTED"
+};
+
+/**
+ * A settlement file line that could not be applied.
+ */
+interface SettlementLineError {
+    line: number;
+    redemption_id: string;
+    error: string;
+}
+
+/**
+ * Lock pending redemptions of one method into a payout batch.
+ * @param {object} data - The method, optional explicit redemption IDs and a size limit.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The created batch.
+ */
+export async function createPayoutBatch(
+    data: { method: string; redemptionIds?: string[]; limit?: number },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const batch = await prisma.$transaction(async (tx) => {
+            const redemptions = await tx.redemptionRequest.findMany({
+                where: {
+                    status: "PENDING",
+                    payout_batch_id: null,
+                    method: { equals: data.method, mode: "insensitive" },
+                    ...(data.redemptionIds && {
+                        id: { in: data.redemptionIds }
+                    })
+                },
+                orderBy: { created_at: "asc" },
+                take: data.limit
+            });
+
+            if (redemptions.length === 0) {
+                throw new BusinessLogicError(
+                    `No pending ${data.method} redemptions to batch`,
+                    ErrorCode.RESOURCE_NOT_FOUND
+                );
+            }
+
+            const created = await tx.payoutBatch.create({
+                data: {
+                    method: redemptions[0].method,
+                    items_count: redemptions.length,
+                    total_amount: redemptions.reduce(
+                        (sum, r) => sum.plus(r.amount),
+                        new Prisma.Decimal(0)
+                    ),
+                    created_by: adminId
+                }
+            });
+
+            // Lock the requests; a concurrent batch or approval makes this fail
+            const { count } = await tx.redemptionRequest.updateMany({
+                where: {
+                    id: { in: redemptions.map((r) => r.id) },
+                    status: "PENDING",
+                    payout_batch_id: null
+                },
+                data: {
+                    payout_batch_id: created.id,
+                    status: "PROCESSING",
+                    processing_at: new Date()
+                }
+            });
+            if (count !== redemptions.length) {
+                throw new ConflictError(
+                    "Some redemptions were processed concurrently, please retry"
+                );
+            }
+
+            await tx.redemptionStatusHistory.createMany({
+                data: redemptions.map((r) => ({
+                    redemption_id: r.id,
+                    from_status: "PENDING" as const,
+                    to_status: "PROCESSING" as const,
+                    actor_id: adminId,
+                    note: `Payout batch ${created.id}`
+                }))
+            });
+
+            return created;
+        });
+
+        await logAdminAction(adminId, "CREATE_PAYOUT_BATCH", batch.id, {
+            method: batch.method,
+            items_count: batch.items_count,
+            total_amount: batch.total_amount.toString()
+        });
+        logger.info(
+            `Payout batch ${batch.id} created with ${batch.items_count} ${batch.method} redemptions`
+        );
+
+        return batch;
+    } catch (err) {
+        logger.error(`Error creating payout batch: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get payout batches.
+ * @param {object} filters - Filter by status and method, paginated.
+ * @returns {Promise<object>} Paginated batches.
+ */
+export async function getPayoutBatches(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { status, method, page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (status) where.status = status;
+        if (method) where.method = method;
+
+        const [batches, total] = await Promise.all([
+            prisma.payoutBatch.findMany({
+                where,
+                skip,
+                take: Number(limit),
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.payoutBatch.count({ where })
+        ]);
+
+        return { batches, total, page: Number(page), limit: Number(limit) };
+    } catch (err) {
+        logger.error(`Error getting payout batches: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get a payout batch with its redemptions.
+ * @param {string} id - The ID of the batch.
+ * @returns {Promise<object>} The batch and its lines.
+ */
+export async function getPayoutBatchDetails(
+    id: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const batch = await prisma.payoutBatch.findUnique({
+            where: { id },
+            include: {
+                redemptions: {
+                    include: {
+                        user: { select: { full_name: true, phone: true } }
+                    },
+                    orderBy: { created_at: "asc" }
+                }
+            }
+        });
+
+        if (!batch) {
+            errorHandler(new NotFoundError("Payout batch not found"), req, res);
+            return null;
+        }
+
+        return batch;
+    } catch (err) {
+        logger.error(`Error getting payout batch details: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Export a payout batch as a provider-ready CSV file.
+ * @param {string} id - The ID of the batch.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The file name and CSV content.
+ */
+export async function exportPayoutBatch(
+    id: string,
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const batch = await prisma.payoutBatch.findUnique({
+            where: { id },
+            include: {
+                redemptions: {
+                    where: { status: "PROCESSING" },
+                    include: {
+                        user: { select: { full_name: true, phone: true } }
+                    },
+                    orderBy: { created_at: "asc" }
+                }
+            }
+        });
+
+        if (!batch) {
+            errorHandler(new NotFoundError("Payout batch not found"), req, res);
+            return null;
+        }
+
+        const csv = toCsv(
+            PAYOUT_EXPORT_HEADERS,
+            batch.redemptions.map((r) => [
+                r.id,
+                r.method,
+                r.type,
+                r.amount.toFixed(2),
+                r.details,
+                r.user.full_name,
+                r.user.phone,
+                r.created_at.toISOString()
+            ])
+        );
+
+        await prisma.payoutBatch.update({
+            where: { id },
+            data: { exported_at: new Date() }
+        });
+        await logAdminAction(adminId, "EXPORT_PAYOUT_BATCH", id, {
+            lines: batch.redemptions.length
+        });
+
+        const method = batch.method.toLowerCase().replace(/\s+/g, "-");
+        return { filename: `payout-${method}-${batch.id}.csv`, csv };
+    } catch (err) {
+        logger.error(`Error exporting payout batch: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Import a provider settlement file for a payout batch.
+ * Expects `redemption_id`, `status` (PAID/COMPLETED, FAILED or REJECTED)
+ * and `provider_reference` columns, plus optional `proof_reference` and
+ * `note`. Each line is settled on its own so one bad line does not block
+ * the rest.
+ * @param {string} id - The ID of the batch.
+ * @param {string} csv - The settlement file content.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The settlement summary with per-line errors.
+ */
+export async function importPayoutSettlement(
+    id: string,
+    csv: string,
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const batch = await prisma.payoutBatch.findUnique({ where: { id } });
+
+        if (!batch) {
+            errorHandler(new NotFoundError("Payout batch not found"), req, res);
+            return null;
+        }
+
+        const rows = parseCsv(csv);
+        if (rows.length === 0 || !("redemption_id" in rows[0])) {
+            errorHandler(
+                new ValidationError(
+                    "Settlement file must have redemption_id, status and provider_reference columns"
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const errors: SettlementLineError[] = [];
+        let completed = 0;
+        let rejected = 0;
+
+        for (const [index, row] of rows.entries()) {
+            // Header is line 1
+            const line = index + 2;
+            const status =
+                SETTLEMENT_STATUSES[(row.status || "").toUpperCase()];
+            const reference = row.provider_reference || undefined;
+
+            if (!status) {
+                errors.push({
+                    line,
+                    redemption_id: row.redemption_id,
+                    error: `Unknown status "${row.status}"`
+                });
+                continue;
+            }
+
+            if (status === "PAID" && !reference) {
+                errors.push({
+                    line,
+                    redemption_id: row.redemption_id,
+                    error: "provider_reference is required for paid lines"
+                });
+                continue;
+            }
+
+            const redemption = await prisma.redemptionRequest.findFirst({
+                where: { id: row.redemption_id, payout_batch_id: id },
+                include: { user: { select: { role: true } } }
+            });
+
+            if (!redemption) {
+                errors.push({
+                    line,
+                    redemption_id: row.redemption_id,
+                    error: "Redemption is not part of this batch"
+                });
+                continue;
+            }
+
+            if (redemption.status !== "PROCESSING") {
+                errors.push({
+                    line,
+                    redemption_id: row.redemption_id,
+                    error: `Redemption is already ${redemption.status.toLowerCase()}`
+                });
+                continue;
+            }
+
+            try {
+                await prisma.$transaction((tx) =>
+                    settleRedemption(
+                        tx,
+                        redemption,
+                        status,
+                        {
+                            admin_note: row.note || undefined,
+                            provider_reference: reference,
+                            proof_reference: row.proof_reference || undefined
+                        },
+                        adminId
+                    )
+                );
+                if (status === "PAID") completed++;
+                else rejected++;
+
+                await notificationService.notifyWorkerRedemptionProcessed(
+                    redemption.user_id,
+                    status === "PAID",
+                    redemption.amount.toString()
+                );
+            } catch (lineErr) {
+                errors.push({
+                    line,
+                    redemption_id: row.redemption_id,
+                    error:
+                        lineErr instanceof Error
+                            ? lineErr.message
+                            : String(lineErr)
+                });
+            }
+        }
+
+        const remaining = await prisma.redemptionRequest.count({
+            where: { payout_batch_id: id, status: "PROCESSING" }
+        });
+
+        const updated = await prisma.payoutBatch.update({
+            where: { id },
+            data: {
+                status: remaining === 0 ? "SETTLED" : "PARTIALLY_SETTLED",
+                settled_at: remaining === 0 ? new Date() : null,
+                completed_count: { increment: completed },
+                rejected_count: { increment: rejected }
+            }
+        });
+
+        await logAdminAction(adminId, "IMPORT_PAYOUT_SETTLEMENT", id, {
+            completed,
+            rejected,
+            errors: errors.length
+        });
+        logger.info(
+            `Payout batch ${id} settlement imported: ${completed} completed, ${rejected} rejected, ${errors.length} errors`
+        );
+
+        return { batch: updated, completed, rejected, remaining, errors };
+    } catch (err) {
+        logger.error(`Error importing payout settlement: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// DUE PAYMENT SERVICES
+// ============================================================================
+
+/**
+ * Record a payment of any amount against a kiosk. The payment is allocated
+ * oldest-first across the kiosk's open dues and produces a receipt.
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {object} data - The amount, payment method and an optional note.
+ * @param {string} adminId - The ID of the collecting admin.
+ * @returns {Promise<object>} The payment, its allocations and the receipt.
+ */
+export async function recordDuePayment(
+    kioskId: string,
+    data: { amount: number; method?: string; note?: string },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await prisma.kiosk.findUnique({
+            where: { id: kioskId }
+        });
+
+        if (!kiosk) {
+            errorHandler(new NotFoundError("Kiosk not found"), req, res);
+            return null;
+        }
+
+        const result = await prisma.$transaction((tx) =>
+            duesService.allocatePayment(tx, {
+                kiosk_id: kioskId,
+                amount: data.amount,
+                method: data.method,
+                note: data.note,
+                collected_by: adminId
+            })
+        );
+
+        await logAdminAction(
+            adminId,
+            "RECORD_DUE_PAYMENT",
+            result.payment.id,
+            {
+                kiosk_id: kioskId,
+                amount: data.amount,
+                receipt_number: result.payment.receipt_number
+            }
+        );
+
+        await notifyDuePayment(kioskId, result);
+
+        return await duesService.getReceipt(result.payment.id);
+    } catch (err) {
+        logger.error(`Error recording due payment: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get a kiosk's due payments and its outstanding amount.
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {object} filters - Pagination.
+ * @returns {Promise<object>} Paginated payments.
+ */
+export async function getKioskDuePayments(
+    kioskId: string,
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const [payments, total, outstanding] = await Promise.all([
+            prisma.duePayment.findMany({
+                where: { kiosk_id: kioskId },
+                include: { _count: { select: { allocations: true } } },
+                skip,
+                take: Number(limit),
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.duePayment.count({ where: { kiosk_id: kioskId } }),
+            duesService.getOutstanding(prisma, kioskId)
+        ]);
+
+        return {
+            payments: payments.map((p) => ({
+                id: p.id,
+                receipt_number: p.receipt_number,
+                amount: p.amount.toString(),
+                method: p.method,
+                collected_by: p.collected_by,
+                note: p.note,
+                dues_count: p._count.allocations,
+                created_at: p.created_at
+            })),
+            outstanding: outstanding.toString(),
+            total,
+            page: Number(page),
+            limit: Number(limit)
+        };
+    } catch (err) {
+        logger.error(`Error getting due payments: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get the receipt of a due payment.
+ * @param {string} paymentId - The ID of the payment.
+ * @returns {Promise<object>} The receipt.
+ */
+export async function getDuePaymentReceipt(
+    paymentId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const receipt = await duesService.getReceipt(paymentId);
+
+        if (!receipt) {
+            errorHandler(new NotFoundError("Payment not found"), req, res);
+            return null;
+        }
+
+        return receipt;
+    } catch (err) {
+        logger.error(`Error getting due payment receipt: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// INVOICE SERVICES
+// ============================================================================
+
+/**
+ * Get kiosk invoices.
+ * @param {object} filters - Filters for kiosk, status and pagination.
+ * @returns {Promise<object>} Paginated invoices.
+ */
+export async function getInvoices(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { kioskId, status, page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (kioskId) where.kiosk_id = kioskId;
+        if (status) where.status = status;
+
+        const [invoices, total] = await Promise.all([
+            prisma.invoice.findMany({
+                where,
+                include: { kiosk: { select: { id: true, name: true } } },
+                skip,
+                take: Number(limit),
+                orderBy: { period_start: "desc" }
+            }),
+            prisma.invoice.count({ where })
+        ]);
+
+        return { invoices, total, page: Number(page), limit: Number(limit) };
+    } catch (err) {
+        logger.error(`Error getting invoices: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get an invoice with its lines and payments.
+ * @param {string} id - The ID of the invoice.
+ * @returns {Promise<object>} The invoice.
+ */
+export async function getInvoiceDetails(
+    id: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const invoice = await duesService.getInvoice(id);
+
+        if (!invoice) {
+            errorHandler(new NotFoundError("Invoice not found"), req, res);
+            return null;
+        }
+
+        return invoice;
+    } catch (err) {
+        logger.error(`Error getting invoice ${id}: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Collect a payment against an invoice. The payment is allocated
+ * oldest-first across the open dues billed up to the end of its period.
+ * @param {string} id - The ID of the invoice.
+ * @param {object} data - The amount, payment method and an optional note.
+ * @param {string} adminId - The ID of the collecting admin.
+ * @returns {Promise<object>} The receipt.
+ */
+export async function collectInvoice(
+    id: string,
+    data: { amount: number; method?: string; note?: string },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const invoice = await prisma.invoice.findUnique({ where: { id } });
+
+        if (!invoice) {
+            errorHandler(new NotFoundError("Invoice not found"), req, res);
+            return null;
+        }
+
+        if (invoice.status === "PAID") {
+            errorHandler(
+                new BusinessLogicError(
+                    "Invoice is already paid",
+                    ErrorCode.RESOURCE_CONFLICT
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const dues = await prisma.kioskDue.findMany({
+            where: {
+                kiosk_id: invoice.kiosk_id,
+                is_paid: false,
+                is_cancelled: false,
+                created_at: { lt: invoice.period_end }
+            },
+            select: { id: true }
+        });
+
+        const result = await prisma.$transaction((tx) =>
+            duesService.allocatePayment(tx, {
+                kiosk_id: invoice.kiosk_id,
+                amount: data.amount,
+                method: data.method,
+                note: data.note,
+                collected_by: adminId,
+                due_ids: dues.map((d) => d.id),
+                invoice_id: invoice.id
+            })
+        );
+
+        await logAdminAction(adminId, "COLLECT_INVOICE", invoice.id, {
+            invoice_number: invoice.invoice_number,
+            amount: data.amount,
+            receipt_number: result.payment.receipt_number
+        });
+
+        await notifyDuePayment(invoice.kiosk_id, result);
+
+        return await duesService.getReceipt(result.payment.id);
+    } catch (err) {
+        logger.error(`Error collecting invoice ${id}: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// COLLECTOR SERVICES
+// ============================================================================
+
+/**
+ * Create a collector account.
+ * @param {object} data - The phone, full name and password of the collector.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The created collector.
+ */
+export async function createCollector(
+    data: { phone: string; fullName: string; password: string },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const existingUser = await prisma.user.findUnique({
+            where: { phone: data.phone }
+        });
+        if (existingUser) {
+            errorHandler(
+                new BusinessLogicError(
+                    "User with this phone already exists",
+                    ErrorCode.RESOURCE_CONFLICT
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const passwordHash = await bcrypt.hash(data.password, 10);
+
+        const collector = await prisma.user.create({
+            data: {
+                phone: data.phone,
+                full_name: data.fullName,
+                password_hash: passwordHash,
+                role: "COLLECTOR",
+                is_active: true,
+                is_verified: true
+            }
+        });
+
+        await logAdminAction(adminId, "CREATE_COLLECTOR", collector.id, {
+            phone: collector.phone
+        });
+
+        return {
+            id: collector.id,
+            phone: collector.phone,
+            full_name: collector.full_name,
+            role: collector.role
+        };
+    } catch (err) {
+        logger.error(`Error creating collector: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get collectors with their assigned kiosks and cash not handed over yet.
+ * @param {object} filters - Filters for search and pagination.
+ * @returns {Promise<object>} Paginated collectors.
+ */
+export async function getCollectors(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { search, page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: Prisma.UserWhereInput = { role: "COLLECTOR" };
+        if (search) {
+            where.OR = [
+                {
+                    full_name: { contains: String(search), mode: "insensitive" }
+                },
+                { phone: { contains: String(search) } }
+            ];
+        }
+
+        const [collectors, total] = await Promise.all([
+            prisma.user.findMany({
+                where,
+                select: {
+                    id: true,
+                    full_name: true,
+                    phone: true,
+                    is_active: true,
+                    created_at: true,
+                    collector_kiosks: { select: { id: true, name: true } }
+                },
+                skip,
+                take: Number(limit),
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.user.count({ where })
+        ]);
+
+        const pending = await prisma.duePayment.groupBy({
+            by: ["collected_by"],
+            where: {
+                collected_by: { in: collectors.map((c) => c.id) },
+                handover_id: null
+            },
+            _sum: { amount: true },
+            _count: true
+        });
+        const pendingMap = new Map(pending.map((p) => [p.collected_by, p]));
+
+        return {
+            collectors: collectors.map((c) => ({
+                ...c,
+                pending_cash: (
+                    pendingMap.get(c.id)?._sum.amount || 0
+                ).toString(),
+                pending_collections: pendingMap.get(c.id)?._count || 0
+            })),
+            total,
+            page: Number(page),
+            limit: Number(limit)
+        };
+    } catch (err) {
+        logger.error(`Error getting collectors: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Replace the kiosks assigned to a collector.
+ * @param {string} id - The ID of the collector.
+ * @param {string[]} kioskIds - The kiosks to assign.
+ * @param {string} adminId - The ID of the admin performing the action.
+ * @returns {Promise<object>} The collector's assigned kiosks.
+ */
+export async function assignCollectorKiosks(
+    id: string,
+    kioskIds: string[],
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const collector = await prisma.user.findUnique({ where: { id } });
+
+        if (!collector || collector.role !== "COLLECTOR") {
+            errorHandler(new NotFoundError("Collector not found"), req, res);
+            return null;
+        }
+
+        const kiosks = await prisma.kiosk.findMany({
+            where: { id: { in: kioskIds } },
+            select: { id: true }
+        });
+        if (kiosks.length !== new Set(kioskIds).size) {
+            errorHandler(
+                new NotFoundError("One or more kiosks were not found"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const assigned = await prisma.$transaction(async (tx) => {
+            await tx.kiosk.updateMany({
+                where: { collector_id: id, id: { notIn: kioskIds } },
+                data: { collector_id: null }
+            });
+            await tx.kiosk.updateMany({
+                where: { id: { in: kioskIds } },
+                data: { collector_id: id }
+            });
+            return tx.kiosk.findMany({
+                where: { collector_id: id },
+                select: { id: true, name: true }
+            });
+        });
+
+        await logAdminAction(adminId, "ASSIGN_COLLECTOR_KIOSKS", id, {
+            kiosk_ids: kioskIds
+        });
+
+        return { collector_id: id, kiosks: assigned };
+    } catch (err) {
+        logger.error(`Error assigning collector kiosks: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get collector handovers.
+ * @param {object} filters - Filters for collector, status and pagination.
+ * @returns {Promise<object>} Paginated handovers.
+ */
+export async function getHandovers(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { collectorId, status, page = 1, limit = 10 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (collectorId) where.collector_id = collectorId;
+        if (status) where.status = status;
+
+        const [handovers, total] = await Promise.all([
+            prisma.collectorHandover.findMany({
+                where,
+                include: {
+                    collector: { select: { full_name: true, phone: true } }
+                },
+                skip,
+                take: Number(limit),
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.collectorHandover.count({ where })
+        ]);
+
+        return { handovers, total, page: Number(page), limit: Number(limit) };
+    } catch (err) {
+        logger.error(`Error getting handovers: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get a handover with its collections.
+ * @param {string} id - The ID of the handover.
+ * @returns {Promise<object>} The handover.
+ */
+export async function getHandoverDetails(
+    id: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const handover = await prisma.collectorHandover.findUnique({
+            where: { id },
+            include: {
+                collector: { select: { full_name: true, phone: true } },
+                payments: {
+                    include: { kiosk: { select: { id: true, name: true } } },
+                    orderBy: { created_at: "asc" }
+                }
+            }
+        });
+
+        if (!handover) {
+            errorHandler(new NotFoundError("Handover not found"), req, res);
+            return null;
+        }
+
+        return handover;
+    } catch (err) {
+        logger.error(`Error getting handover ${id}: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Reconcile a handover against the cash counted by the admin. A handover
+ * whose counted cash differs from its collections is marked DISPUTED.
+ * @param {string} id - The ID of the handover.
+ * @param {object} data - The counted cash and an optional note.
+ * @param {string} adminId - The ID of the reconciling admin.
+ * @returns {Promise<object>} The reconciled handover.
+ */
+export async function reconcileHandover(
+    id: string,
+    data: { received_amount: number; note?: string },
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const handover = await prisma.collectorHandover.findUnique({
+            where: { id }
+        });
+
+        if (!handover) {
+            errorHandler(new NotFoundError("Handover not found"), req, res);
+            return null;
+        }
+
+        if (handover.status !== "SUBMITTED") {
+            errorHandler(
+                new BusinessLogicError(
+                    "Handover is already reconciled",
+                    ErrorCode.RESOURCE_CONFLICT
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const difference = new Prisma.Decimal(data.received_amount).minus(
+            handover.expected_amount
+        );
+
+        const { count } = await prisma.collectorHandover.updateMany({
+            where: { id, status: "SUBMITTED" },
+            data: {
+                status: difference.isZero() ? "RECONCILED" : "DISPUTED",
+                received_amount: data.received_amount,
+                difference,
+                admin_note: data.note,
+                reconciled_by: adminId,
+                reconciled_at: new Date()
+            }
+        });
+        if (count === 0) {
+            errorHandler(
+                new ConflictError("Handover was reconciled concurrently"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        await logAdminAction(adminId, "RECONCILE_HANDOVER", id, {
+            collector_id: handover.collector_id,
+            expected: handover.expected_amount.toString(),
+            received: data.received_amount,
+            difference: difference.toString()
+        });
+
+        return await prisma.collectorHandover.findUnique({ where: { id } });
+    } catch (err) {
+        logger.error(`Error reconciling handover ${id}: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// SMS SERVICES
+// ============================================================================
+
+/**
+ * Sum SMS counts per name into sent and failed.
+ * @param {object[]} rows - Counts by name and status.
+ * @returns {object[]} Sent and failed counts per name.
+ */
+function summarizeSmsCounts(
+    rows: { name: string | null; status: string; count: number }[]
+) {
+    const totals: Record<
+        string,
+        { name: string; sent: number; failed: number }
+    > = {};
+
+    for (const row of rows) {
+        const name = row.name ?? "none";
+        totals[name] = totals[name] || { name, sent: 0, failed: 0 };
+        if (row.status === "SENT") totals[name].sent += row.count;
+        else totals[name].failed += row.count;
+    }
+
+    return Object.values(totals);
+}
+
+/**
+ * Get SMS volume, failures and cost for a period.
+ * @param {"1d" | "7d" | "30d"} filter - Time period filter (default: "7d").
+ * @returns {Promise<object>} Totals, breakdowns by purpose and provider, and the latest failures.
+ */
+export async function getSmsStats(
+    filter: "1d" | "7d" | "30d" = "7d",
+    req: Request,
+    res: Response
+) {
+    try {
+        const days = filter === "1d" ? 1 : filter === "30d" ? 30 : 7;
+        const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const where = { created_at: { gte: startDate } };
+
+        const [byStatus, byPurpose, byProvider, recentFailures] =
+            await Promise.all([
+                prisma.smsLog.groupBy({
+                    by: ["status"],
+                    where,
+                    _count: true,
+                    _sum: { cost: true, attempts: true }
+                }),
+                prisma.smsLog.groupBy({
+                    by: ["purpose", "status"],
+                    where,
+                    _count: true
+                }),
+                prisma.smsLog.groupBy({
+                    by: ["provider", "status"],
+                    where,
+                    _count: true
+                }),
+                prisma.smsLog.findMany({
+                    where: { ...where, status: "FAILED" },
+                    orderBy: { created_at: "desc" },
+                    take: 10
+                })
+            ]);
+
+        const sent = byStatus.find((s) => s.status === "SENT");
+        const failed = byStatus.find((s) => s.status === "FAILED");
+        const total = (sent?._count || 0) + (failed?._count || 0);
+
+        return {
+            period: filter,
+            total,
+            sent: sent?._count || 0,
+            failed: failed?._count || 0,
+            failure_rate:
+                total > 0
+                    ? Math.round(((failed?._count || 0) / total) * 10000) / 100
+                    : 0,
+            retries:
+                (sent?._sum.attempts || 0) +
+                (failed?._sum.attempts || 0) -
+                total,
+            total_cost: (sent?._sum.cost || 0).toString(),
+            by_purpose: summarizeSmsCounts(
+                byPurpose.map((r) => ({
+                    name: r.purpose,
+                    status: r.status,
+                    count: r._count
+                }))
+            ),
+            by_provider: summarizeSmsCounts(
+                byProvider.map((r) => ({
+                    name: r.provider,
+                    status: r.status,
+                    count: r._count
+                }))
+            ),
+            recent_failures: recentFailures
+        };
+    } catch (err) {
+        logger.error(`Error getting SMS stats: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get SMS log entries.
+ * @param {object} filters - Filters for status, phone, purpose and pagination.
+ * @returns {Promise<object>} Paginated SMS log entries.
+ */
+export async function getSmsLogs(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { status, phone, purpose, page = 1, limit = 20 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (status) where.status = status;
+        if (phone) where.phone = phone;
+        if (purpose) where.purpose = purpose;
+
+        const [logs, total] = await Promise.all([
+            prisma.smsLog.findMany({
+                where,
+                skip,
+                take: Number(limit),
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.smsLog.count({ where })
+        ]);
+
+        return { logs, total, page: Number(page), limit: Number(limit) };
+    } catch (err) {
+        logger.error(`Error getting SMS logs: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+// ============================================================================
+// USER SECURITY SERVICES
+// ============================================================================
+
+/**
+ * Lift a user's login lockout and backoff.
+ * @param {string} id - The ID of the user.
+ * @param {string} adminId - The ID of the admin performing the unlock.
+ * @returns {Promise<object>} The user's security state after the unlock.
+ * @throws {NotFoundError} If the user is not found.
+ */
+export async function unlockUser(
+    id: string,
+    adminId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const user = await prisma.user.findUnique({ where: { id } });
+        if (!user) {
+            errorHandler(new NotFoundError("User not found"), req, res);
+            return null;
+        }
+
+        const cleared = await bruteForceService.unlockPhone(user.phone);
+        await logAdminAction(adminId, "UNLOCK_USER", id, { cleared });
+
+        return await bruteForceService.getPhoneSecurity(user.phone);
+    } catch (err) {
+        logger.error(`Error unlocking user: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
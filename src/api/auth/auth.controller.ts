@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import * as authService from "./auth.service.js";
+import * as sessionService from "./session.service.js";
 import {
     AuthenticationError,
     ErrorCode,
@@ -21,6 +22,8 @@ export const sendOtp = asyncHandler(async (req: Request, res: Response) => {
 
     const result = await authService.sendOtp(phone, req, res);
 
+    if (res.headersSent) return;
+
     ResponseHandler.success(res, "OTP sent successfully", {
         message: result.message,
         token: result.token
@@ -47,6 +50,8 @@ export const resendOtp = asyncHandler(async (req: Request, res: Response) => {
 
     const result = await authService.resendOtp(phone, req, res);
 
+    if (res.headersSent) return;
+
     ResponseHandler.success(res, "OTP sent successfully", {
         message: result.message,
         token: result.token
@@ -93,6 +98,7 @@ export const verifyOtp = asyncHandler(async (req: Request, res: Response) => {
 
     ResponseHandler.success(res, "OTP verified successfully", {
         token: result.token,
+        refresh_token: result.refresh_token,
         user: result.worker_profile
     });
 });
@@ -115,6 +121,8 @@ export const register = asyncHandler(async (req: Request, res: Response) => {
         res
     );
 
+    if (res.headersSent) return;
+
     ResponseHandler.created(res, "User registered successfully", {
         id: result.id,
         name: result.full_name,
@@ -136,12 +144,15 @@ export const login = asyncHandler(async (req: Request, res: Response) => {
 
     const result = await authService.login(phone, password, req, res);
 
+    if (res.headersSent) return;
+
     ResponseHandler.success(res, "Login successful", {
         id: result.id,
         name: result.full_name,
         phone: result.phone,
         role: result.role,
         token: result.token,
+        refresh_token: result.refresh_token,
         workerProfile: result.worker_profile
     });
 });
@@ -207,23 +218,65 @@ export const forgotPassword = asyncHandler(
         const { phone } = req.body;
 
         const result = await authService.forgotPassword(phone, req, res);
+        if (res.headersSent) return;
 
-        ResponseHandler.success(res, "OTP sent successfully", {
-            message: result.message,
-            token: result.token
-        });
+        ResponseHandler.success(res, result.message);
+    }
+);
+
+/**
+ * Verify the forgot-password OTP and get a reset token.
+ *
+ * @param {Request} req - The Express request object containing phone and code in body.
+ * @param {Response} res - The Express response object.
+ */
+export const verifyPasswordResetOtp = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { phone, code } = req.body;
+
+        const result = await authService.verifyPasswordResetOtp(
+            phone,
+            code,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "OTP verified successfully", result);
+    }
+);
+
+/**
+ * Set a new password with a reset token.
+ *
+ * @param {Request} req - The Express request object containing reset_token and password in body.
+ * @param {Response} res - The Express response object.
+ */
+export const completePasswordReset = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { reset_token, password } = req.body;
+
+        const result = await authService.completePasswordReset(
+            reset_token,
+            password,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, result.message);
     }
 );
 
 /**
- * Reset password with new password.
+ * Change the password of the signed-in user.
  *
- * @param {Request} req - The Express request object containing password in body.
+ * @param {Request} req - The Express request object containing current_password and password in body.
  * @param {Response} res - The Express response object.
  */
 export const resetPassword = asyncHandler(
     async (req: Request, res: Response) => {
-        const { password } = req.body;
+        const { current_password, password } = req.body;
 
         const phone = req.user?.phone;
 
@@ -239,8 +292,97 @@ export const resetPassword = asyncHandler(
             return;
         }
 
-        await authService.resetPassword(phone, password, req, res);
+        const result = await authService.resetPassword(
+            phone,
+            current_password,
+            password,
+            req,
+            res
+        );
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, result.message, {
+            token: result.token,
+            workerProfile: result.worker_profile
+        });
+    }
+);
+
+/**
+ * Exchange a refresh token for new tokens.
+ *
+ * @param {Request} req - The Express request object containing refresh_token in body.
+ * @param {Response} res - The Express response object.
+ */
+export const refresh = asyncHandler(async (req: Request, res: Response) => {
+    const { refresh_token } = req.body;
+
+    const result = await sessionService.refreshSession(
+        refresh_token,
+        sessionService.deviceFromRequest(req),
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "Token refreshed successfully", {
+        token: result.token,
+        refresh_token: result.refresh_token
+    });
+});
+
+/**
+ * Log out of the current session.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const logout = asyncHandler(async (req: Request, res: Response) => {
+    await sessionService.revokeSession(req.user!.session_id, "LOGOUT");
+
+    ResponseHandler.success(res, "Logged out successfully");
+});
+
+/**
+ * Get the active sessions of the current user.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await sessionService.getSessions(
+        req.user!.id,
+        req.user!.session_id,
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "Sessions retrieved", sessions);
+});
+
+/**
+ * Revoke one of the current user's sessions.
+ *
+ * @param {Request} req - The Express request object containing id in params.
+ * @param {Response} res - The Express response object.
+ */
+export const revokeSession = asyncHandler(
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+
+        await sessionService.revokeUserSession(
+            req.user!.id,
+            id,
+            "REVOKED",
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
 
-        ResponseHandler.success(res, "Password reset successfully");
+        ResponseHandler.success(res, "Session revoked successfully");
     }
 );
@@ -10,9 +10,14 @@ import {
     verifyOtpSchema,
     registerSchema,
     loginSchema,
-    resetPasswordSchema
+    resetPasswordSchema,
+    refreshTokenSchema,
+    forgotPasswordSchema,
+    verifyPasswordResetSchema,
+    completePasswordResetSchema
 } from "../../schemas/validation.schema.js";
 import { validateRequest } from "../../middlewares/validate.middleware.js";
+import { bruteForceGuard } from "../../middlewares/ratelimit.middleware.js";
 
 const router = Router();
 
@@ -23,10 +28,16 @@ const router = Router();
 router.post(
     "/send-otp",
     validateRequest(sendOtpSchema),
+    bruteForceGuard,
     authController.sendOtp
 );
 
-router.post("/resend-otp", tempAuthMiddleware, authController.resendOtp);
+router.post(
+    "/resend-otp",
+    tempAuthMiddleware,
+    bruteForceGuard,
+    authController.resendOtp
+);
 
 /**
  * POST /api/auth/verify-otp
@@ -36,6 +47,7 @@ router.post(
     "/verify-otp",
     tempAuthMiddleware,
     validateRequest(verifyOtpSchema),
+    bruteForceGuard,
     authController.verifyOtp
 );
 
@@ -54,7 +66,79 @@ router.post(
  * POST /api/auth/login
  * Login with phone and password.
  */
-router.post("/login", validateRequest(loginSchema), authController.login);
+router.post(
+    "/login",
+    validateRequest(loginSchema),
+    bruteForceGuard,
+    authController.login
+);
+
+/**
+ * POST /api/auth/forgot-password
+ * Send a password reset OTP. Answers the same for unknown phones.
+ */
+router.post(
+    "/forgot-password",
+    validateRequest(forgotPasswordSchema),
+    bruteForceGuard,
+    authController.forgotPassword
+);
+
+/**
+ * POST /api/auth/forgot-password/verify
+ * Verify the password reset OTP and get a single-use reset token.
+ */
+router.post(
+    "/forgot-password/verify",
+    validateRequest(verifyPasswordResetSchema),
+    bruteForceGuard,
+    authController.verifyPasswordResetOtp
+);
+
+/**
+ * POST /api/auth/forgot-password/reset
+ * Set a new password with the reset token and sign out all sessions.
+ */
+router.post(
+    "/forgot-password/reset",
+    validateRequest(completePasswordResetSchema),
+    authController.completePasswordReset
+);
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token.
+ */
+router.post(
+    "/refresh",
+    validateRequest(refreshTokenSchema),
+    authController.refresh
+);
+
+/**
+ * POST /api/auth/logout
+ * Revoke the current session.
+ * Protected: Authenticated users.
+ */
+router.post("/logout", authMiddlewareAlias, authController.logout);
+
+/**
+ * GET /api/auth/sessions
+ * List the active sessions of the current user.
+ * Protected: Authenticated users.
+ */
+router.get("/sessions", authMiddlewareAlias, authController.getSessions);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke one of the current user's sessions.
+ * Protected: Authenticated users.
+ */
+router.delete(
+    "/sessions/:id",
+    authMiddlewareAlias,
+    authController.revokeSession
+);
 
 /**
  * GET /api/auth/verify
@@ -73,6 +157,11 @@ router.delete(
     authController.deleteAccount
 );
 
+/**
+ * POST /api/auth/reset-password
+ * Change the password of the signed-in user.
+ * Protected: Authenticated users.
+ */
 router.post(
     "/reset-password",
     authMiddlewareAlias,
@@ -1,5 +1,7 @@
 import type { Request, Response } from "express";
 import bcrypt from "bcrypt";
+import { createHash, randomBytes } from "node:crypto";
+import { OtpPurpose, Prisma } from "@prisma/client";
 import prisma from "../../prisma.js";
 import { config } from "../../config/env.config.js";
 import {
@@ -11,12 +13,45 @@ import {
 } from "../../utils/response.js";
 import logger from "../../utils/logger.js";
 import { errorHandler } from "../../middlewares/error.middleware.js";
-import ms from "ms";
 import jwt, { SignOptions } from "jsonwebtoken";
-import { sendSMS } from "../../utils/sms.js";
+import * as ledgerService from "../ledger/ledger.service.js";
+import * as sessionService from "./session.service.js";
+import * as otpService from "../otp/otp.service.js";
+import * as bruteForceService from "./bruteForce.service.js";
+import * as smsService from "../sms/sms.service.js";
 import dotenv from "dotenv";
 dotenv.config({ quiet: true });
 
+/**
+ * The OTP purpose for a phone: verified users sign in, anyone else is
+ * registering.
+ *
+ * @param {object | null} user - The user with the phone, if any.
+ * @returns {OtpPurpose} The purpose.
+ */
+function otpPurposeFor(user: { is_verified: boolean } | null): OtpPurpose {
+    return user?.is_verified ? "LOGIN" : "REGISTRATION";
+}
+
+/** How long a password reset token stays valid. */
+const PASSWORD_RESET_TOKEN_MINUTES = 15;
+
+/**
+ * Shortest time forgotPassword takes to answer, long enough to cover sending
+ * the SMS, so known and unknown phones cannot be told apart by timing.
+ */
+const FORGOT_PASSWORD_MIN_RESPONSE_MS = 2000;
+
+/**
+ * Hash a password reset token for storage.
+ *
+ * @param {string} resetToken - The reset token.
+ * @returns {string} The SHA-256 hex digest.
+ */
+function hashResetToken(resetToken: string): string {
+    return createHash("sha256").update(resetToken).digest("hex");
+}
+
 /**
  * Generate and store OTP.
  *
@@ -29,21 +64,8 @@ export async function sendOtp(
     res: Response
 ): Promise<{ message: string; token: string }> {
     try {
-        // Generate 4-digit OTP
-        const code = Math.floor(1000 + Math.random() * 9000).toString();
-
-        // Expiry: 10 minutes
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-
-        // Save to database
-        await prisma.otp.upsert({
-            where: { phone },
-            update: { code, expiresAt },
-            create: { phone, code, expiresAt }
-        });
-
-        await sendSMS(phone, code);
-        logger.info(`OTP sent to ${phone}: ${code}`);
+        const user = await prisma.user.findUnique({ where: { phone } });
+        await otpService.issueOtp(phone, otpPurposeFor(user));
 
         // Generate temporary token for registration
         const opts: SignOptions = { expiresIn: "30m" };
@@ -60,7 +82,9 @@ export async function sendOtp(
     } catch (err) {
         logger.error(`Error sending OTP: ${err}`);
         errorHandler(
-            new Error("حدث خطأ أثناء إرسال رمز التحقق لمرة واحدة"),
+            err instanceof AppError
+                ? err
+                : new Error("حدث خطأ أثناء إرسال رمز التحقق لمرة واحدة"),
             req,
             res
         );
@@ -111,6 +135,7 @@ export async function verifyOtp(
 ): Promise<{
     userExists: boolean;
     token: string;
+    refresh_token?: string;
     worker_profile?: {
         id: string;
         kiosk_id: string;
@@ -119,51 +144,17 @@ export async function verifyOtp(
     } | null;
 }> {
     try {
-        // Find OTP record
-        const otpRecord = await prisma.otp.findUnique({ where: { phone } });
-
-        if (!otpRecord) {
-            errorHandler(
-                new NotFoundError(
-                    "لم يتم العثور على رمز التحقق لمرة واحدة أو انتهت صلاحيته"
-                ),
-                req,
-                res
-            );
-            return { userExists: false, token: "" };
-        }
-
-        if (otpRecord.expiresAt < new Date()) {
-            await prisma.otp.delete({ where: { phone } });
-            errorHandler(
-                new AuthenticationError(
-                    "انتهت صلاحية رمز التحقق لمرة واحدة",
-                    ErrorCode.OTP_EXPIRED
-                ),
-                req,
-                res
-            );
-            return { userExists: false, token: "" };
-        }
-
-        if (otpRecord.code !== code) {
-            errorHandler(
-                new AuthenticationError(
-                    "رمز التحقق لمرة واحدة غير صحيح",
-                    ErrorCode.INVALID_OTP
-                ),
-                req,
-                res
-            );
-            return { userExists: false, token: "" };
-        }
-
-        // Delete used OTP
-        await prisma.otp.delete({ where: { phone } });
-
-        // Check if user exists
+        // Check if user exists; the code must have been issued for the
+        // same purpose
         const user = await prisma.user.findUnique({ where: { phone } });
 
+        await bruteForceService.verifyOtpCode(
+            phone,
+            otpPurposeFor(user),
+            code,
+            req.ip
+        );
+
         if (!user) {
             logger.info(`OTP verified for new user: ${phone}`);
             return {
@@ -189,14 +180,10 @@ export async function verifyOtp(
             data: { is_verified: true }
         });
 
-        // Generate auth token for existing user
-        const opts: SignOptions = {
-            expiresIn: (await config).JWT_EXPIRY as ms.StringValue
-        };
-        const token = jwt.sign(
-            { id: user.id, phone: user.phone, role: user.role },
-            (await config).JWT_SECRET as string,
-            opts
+        // Open a session for the existing user
+        const session = await sessionService.createSession(
+            user,
+            sessionService.deviceFromRequest(req)
         );
 
         let workerProfile = null;
@@ -205,11 +192,18 @@ export async function verifyOtp(
         }
 
         logger.info(`OTP verified and user authenticated: ${phone}`);
-        return { userExists: true, token, worker_profile: workerProfile };
+        return {
+            userExists: true,
+            token: session.token,
+            refresh_token: session.refresh_token,
+            worker_profile: workerProfile
+        };
     } catch (err) {
         logger.error(`Error verifying OTP: ${err}`);
         errorHandler(
-            new Error("حدث خطأ أثناء التحقق من رمز التحقق لمرة واحدة"),
+            err instanceof AppError
+                ? err
+                : new Error("حدث خطأ أثناء التحقق من رمز التحقق لمرة واحدة"),
             req,
             res
         );
@@ -266,6 +260,10 @@ export async function register(
             };
         }
 
+        // Send the verification code first, so a cooldown or lockout does
+        // not leave a half-registered user behind
+        await otpService.issueOtp(phone, "REGISTRATION");
+
         // Hash password
         const passwordHash = await bcrypt.hash(password, 10);
 
@@ -306,36 +304,51 @@ export async function register(
         });
 
         if (shadowWallet) {
-            // Move shadow wallet balance to real wallet
-            await prisma.wallet.update({
-                where: { user_id: user.id },
-                data: { balance: shadowWallet.balance }
-            });
+            const claimed = await prisma.$transaction(async (tx) => {
+                // Lock the shadow wallet so deposits and expiry landing
+                // meanwhile are claimed with it, not lost on delete
+                const [locked] = await tx.$queryRaw<
+                    { balance: Prisma.Decimal }[]
+                >`SELECT balance FROM "ShadowWallet" WHERE "phone" = ${phone} FOR UPDATE`;
+                if (!locked) return null;
+
+                // Move shadow wallet balance to real wallet
+                await tx.wallet.update({
+                    where: { user_id: user.id },
+                    data: { balance: { increment: locked.balance } }
+                });
 
-            // Delete shadow wallet
-            await prisma.shadowWallet.delete({ where: { phone } });
+                // Delete shadow wallet
+                await tx.shadowWallet.delete({ where: { phone } });
+
+                await ledgerService.recordJournal(
+                    tx,
+                    { type: "SHADOW_CLAIM" },
+                    [
+                        ledgerService.shadowLine(
+                            phone,
+                            "DEBIT",
+                            locked.balance
+                        ),
+                        ledgerService.walletLine(
+                            user.role,
+                            user.id,
+                            "CREDIT",
+                            locked.balance
+                        )
+                    ],
+                    "Shadow wallet claimed"
+                );
+                return locked.balance;
+            });
 
-            logger.info(
-                `Shadow wallet claimed for ${phone}: ${shadowWallet.balance} points`
-            );
+            if (claimed) {
+                logger.info(
+                    `Shadow wallet claimed for ${phone}: ${claimed} points`
+                );
+            }
         }
 
-        // Generate 4-digit OTP
-        const code = Math.floor(1000 + Math.random() * 9000).toString();
-
-        // Expiry: 10 minutes
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-
-        // Save to database
-        await prisma.otp.upsert({
-            where: { phone },
-            update: { code, expiresAt },
-            create: { phone, code, expiresAt }
-        });
-
-        await sendSMS(phone, code);
-        logger.info(`OTP sent to ${phone}: ${code}`);
-
         // Generate temporary token for registration
         const opts: SignOptions = { expiresIn: "30m" };
         const tempToken = jwt.sign(
@@ -362,11 +375,13 @@ export async function register(
     } catch (err) {
         logger.error(`Error registering user: ${err}`);
         errorHandler(
-            new AppError(
-                "خطأ في تسجيل المستخدم",
-                500,
-                ErrorCode.INTERNAL_ERROR
-            ),
+            err instanceof AppError
+                ? err
+                : new AppError(
+                      "خطأ في تسجيل المستخدم",
+                      500,
+                      ErrorCode.INTERNAL_ERROR
+                  ),
             req,
             res
         );
@@ -387,7 +402,7 @@ export async function register(
  * @param {string} password - The password.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
- * @returns {Promise<{ id: string; full_name: string; phone: string; role: string; token: string }>} The logged-in user details and token.
+ * @returns {Promise<{ id: string; full_name: string; phone: string; role: string; token: string; refresh_token: string }>} The logged-in user details and tokens.
  */
 export async function login(
     phone: string,
@@ -400,6 +415,7 @@ export async function login(
     phone: string;
     role: string;
     token: string;
+    refresh_token?: string;
     worker_profile?: {
         id: string;
         kiosk_id: string;
@@ -411,11 +427,18 @@ export async function login(
         const user = await prisma.user.findUnique({ where: { phone } });
 
         if (!user || !user.password_hash) {
+            await bruteForceService.recordFailure(
+                phone,
+                req.ip,
+                "LOGIN",
+                user ? "NO_PASSWORD" : "UNKNOWN_PHONE"
+            );
             errorHandler(
                 new AuthenticationError("رقم هاتف أو كلمة مرور غير صحيحة"),
                 req,
                 res
             );
+            return null;
         }
 
         if (!user.is_active) {
@@ -427,6 +450,7 @@ export async function login(
                 req,
                 res
             );
+            return null;
         }
 
         // Verify password
@@ -436,27 +460,32 @@ export async function login(
         );
 
         if (!isPasswordValid) {
+            await bruteForceService.recordFailure(
+                phone,
+                req.ip,
+                "LOGIN",
+                "INVALID_PASSWORD"
+            );
             errorHandler(
                 new AuthenticationError("رقم هاتف أو كلمة مرور غير صحيحة"),
                 req,
                 res
             );
+            return null;
         }
 
+        await bruteForceService.recordSuccess(phone);
+
         // Get first active worker profile for WORKER role
         let workerProfile = null;
         if (user.role === "WORKER") {
             workerProfile = await getWorkerProfile(user.id);
         }
 
-        // Generate auth token
-        const opts: SignOptions = {
-            expiresIn: (await config).JWT_EXPIRY as ms.StringValue
-        };
-        const token = jwt.sign(
-            { id: user.id, phone: user.phone, role: user.role },
-            (await config).JWT_SECRET as string,
-            opts
+        // Open a session for this device
+        const session = await sessionService.createSession(
+            user,
+            sessionService.deviceFromRequest(req)
         );
 
         logger.info(`User logged in: ${phone}`);
@@ -465,7 +494,8 @@ export async function login(
             id: user.id,
             phone: user.phone,
             role: user.role,
-            token,
+            token: session.token,
+            refresh_token: session.refresh_token,
             worker_profile: workerProfile
         };
     } catch (err) {
@@ -589,14 +619,20 @@ export async function deleteAccount(
 
             // Wallet Redemption
             if (user.wallet && user.wallet.balance.toNumber() > 0) {
-                await tx.redemptionRequest.create({
+                const redemption = await tx.redemptionRequest.create({
                     data: {
                         user_id: userId,
                         amount: user.wallet.balance,
                         method: "DELETION",
                         type: "DELETION",
                         details: "Account deletion - Auto redemption",
-                        status: "PENDING"
+                        status: "PENDING",
+                        status_history: {
+                            create: {
+                                to_status: "PENDING",
+                                note: "Account deletion"
+                            }
+                        }
                     }
                 });
 
@@ -604,16 +640,37 @@ export async function deleteAccount(
                     where: { id: user.wallet.id },
                     data: { balance: 0 }
                 });
+
+                await ledgerService.recordJournal(
+                    tx,
+                    { type: "REDEMPTION", redemption_id: redemption.id },
+                    [
+                        ledgerService.walletLine(
+                            user.role,
+                            userId,
+                            "DEBIT",
+                            user.wallet.balance
+                        ),
+                        {
+                            account: "REDEMPTION_PAYABLE",
+                            direction: "CREDIT",
+                            amount: user.wallet.balance
+                        }
+                    ],
+                    "Account deletion auto redemption"
+                );
                 logger.info(`Auto-redeemed balance for user ${userId}`);
             }
 
             // Soft Delete User
             await tx.user.update({
                 where: { id: userId },
-                data: { is_active: false }
+                data: { is_active: false, token_version: { increment: 1 } }
             });
         });
 
+        await sessionService.revokeAllSessions(userId, "ACCOUNT_DELETED");
+
         logger.info(`User account deleted (soft): ${userId}`);
     } catch (err) {
         logger.error(`Error deleting account: ${err}`);
@@ -630,66 +687,198 @@ export async function deleteAccount(
 }
 
 /**
- * Initiate forgot password flow.
+ * Start the forgot-password flow by sending a PASSWORD_RESET code. The
+ * response is the same whether or not the phone has an account: errors from
+ * issuing the code (cooldown, lockout) are only logged, and every answer
+ * takes at least FORGOT_PASSWORD_MIN_RESPONSE_MS.
+ *
  * @param {string} phone - The phone number.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
- * @returns {Promise<{ message: string; token: string }>} Result containing message and token.
+ * @returns {Promise<{ message: string } | null>} The message for the user.
  */
 export async function forgotPassword(
     phone: string,
     req: Request,
     res: Response
-): Promise<{ message: string; token: string }> {
+): Promise<{ message: string } | null> {
     try {
-        // Generate 4-digit OTP
-        const code = Math.floor(1000 + Math.random() * 9000).toString();
-
-        // Expiry: 10 minutes
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-
-        // Save to database
-        await prisma.otp.upsert({
-            where: { phone },
-            update: { code, expiresAt },
-            create: { phone, code, expiresAt }
-        });
+        const answerAt = Date.now() + FORGOT_PASSWORD_MIN_RESPONSE_MS;
+        const user = await prisma.user.findUnique({ where: { phone } });
 
-        await sendSMS(phone, code);
-        logger.info(`OTP sent to ${phone}: ${code}`);
+        if (user?.is_active && user.is_verified) {
+            try {
+                await otpService.issueOtp(phone, "PASSWORD_RESET");
+            } catch (err) {
+                logger.warn(`Password reset code not sent to ${phone}: ${err}`);
+            }
+        } else {
+            logger.info(`Password reset requested for unknown phone ${phone}`);
+        }
 
-        // Generate temporary token for registration
-        const opts: SignOptions = { expiresIn: "30m" };
-        const tempToken = jwt.sign(
-            { phone, tempAuth: true },
-            (await config).JWT_SECRET as string,
-            opts
+        await new Promise((resolve) =>
+            setTimeout(resolve, Math.max(answerAt - Date.now(), 0))
         );
 
         return {
-            message: "تم إرسال رمز التحقق لمرة واحدة بنجاح",
-            token: tempToken
+            message: "إذا كان الرقم مسجلاً فسيصلك رمز التحقق لمرة واحدة"
         };
     } catch (err) {
-        logger.error(`Error sending OTP: ${err}`);
+        logger.error(`Error starting password reset: ${err}`);
         errorHandler(err, req, res);
-        return {
-            message: "حدث خطأ أثناء إرسال رمز التحقق لمرة واحدة",
-            token: ""
-        };
+        return null;
     }
 }
 
 /**
- * Reset password.
+ * Verify a PASSWORD_RESET code and hand out a single-use reset token.
+ * Earlier unused tokens of the user stop working. A missing code, a wrong
+ * code and an unknown phone all answer INVALID_OTP.
+ *
  * @param {string} phone - The phone number.
+ * @param {string} code - The code sent by forgotPassword.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<{ reset_token: string; expires_at: Date } | null>} The reset token and when it expires.
+ */
+export async function verifyPasswordResetOtp(
+    phone: string,
+    code: string,
+    req: Request,
+    res: Response
+): Promise<{ reset_token: string; expires_at: Date } | null> {
+    try {
+        await bruteForceService.verifyOtpCode(
+            phone,
+            "PASSWORD_RESET",
+            code,
+            req.ip
+        );
+
+        // Same error as a wrong or missing code, so the answer does not
+        // tell whether the phone has an account
+        const user = await prisma.user.findUnique({ where: { phone } });
+        if (!user || !user.is_active) {
+            errorHandler(otpService.invalidOtpError(), req, res);
+            return null;
+        }
+
+        const resetToken = randomBytes(32).toString("base64url");
+        const expiresAt = new Date(
+            Date.now() + PASSWORD_RESET_TOKEN_MINUTES * 60 * 1000
+        );
+
+        await prisma.$transaction([
+            prisma.passwordReset.updateMany({
+                where: { user_id: user.id, used_at: null },
+                data: { used_at: new Date() }
+            }),
+            prisma.passwordReset.create({
+                data: {
+                    user_id: user.id,
+                    token_hash: hashResetToken(resetToken),
+                    ip_address: req.ip,
+                    expires_at: expiresAt
+                }
+            })
+        ]);
+
+        return { reset_token: resetToken, expires_at: expiresAt };
+    } catch (err) {
+        logger.error(`Error verifying password reset OTP: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Set a new password with a reset token. Signs the user out everywhere,
+ * clears any login lockout and tells the user by SMS.
+ *
+ * @param {string} resetToken - The token from verifyPasswordResetOtp.
  * @param {string} password - The new password.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
- * @returns {Promise<{ message: string; token: string }>} Result containing message and token.
+ * @returns {Promise<{ message: string } | null>} The message for the user.
+ */
+export async function completePasswordReset(
+    resetToken: string,
+    password: string,
+    req: Request,
+    res: Response
+): Promise<{ message: string } | null> {
+    try {
+        const reset = await prisma.passwordReset.findUnique({
+            where: { token_hash: hashResetToken(resetToken) },
+            include: { user: true }
+        });
+
+        const invalid = new AuthenticationError(
+            "رابط إعادة تعيين كلمة المرور غير صالح أو منتهي الصلاحية",
+            ErrorCode.INVALID_TOKEN
+        );
+        if (
+            !reset ||
+            reset.used_at ||
+            reset.expires_at < new Date() ||
+            !reset.user.is_active
+        ) {
+            errorHandler(invalid, req, res);
+            return null;
+        }
+
+        const passwordHash = await bcrypt.hash(password, 10);
+
+        // The used_at guard makes the token single-use under concurrency
+        const used = await prisma.$transaction(async (tx) => {
+            const { count } = await tx.passwordReset.updateMany({
+                where: { id: reset.id, used_at: null },
+                data: { used_at: new Date() }
+            });
+            if (count === 0) return false;
+
+            await tx.user.update({
+                where: { id: reset.user_id },
+                data: {
+                    password_hash: passwordHash,
+                    token_version: { increment: 1 }
+                }
+            });
+            return true;
+        });
+        if (!used) {
+            errorHandler(invalid, req, res);
+            return null;
+        }
+
+        const { phone } = reset.user;
+        await sessionService.revokeAllSessions(reset.user_id, "PASSWORD_RESET");
+        await bruteForceService.unlockPhone(phone);
+        await smsService.sendTemplate(phone, "PASSWORD_CHANGED", {});
+
+        logger.info(`Password reset via OTP for ${phone}`);
+
+        return { message: "تم تغيير كلمة المرور، يرجى تسجيل الدخول" };
+    } catch (err) {
+        logger.error(`Error completing password reset: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Change the password of the signed-in user.
+ * Other sessions are signed out; the current one gets a fresh access token.
+ * @param {string} phone - The phone number.
+ * @param {string} currentPassword - The current password.
+ * @param {string} password - The new password.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<{ message: string; token: string } | null>} Result containing message and token.
  */
 export async function resetPassword(
     phone: string,
+    currentPassword: string,
     password: string,
     req: Request,
     res: Response
@@ -702,7 +891,7 @@ export async function resetPassword(
         kiosk_name: string;
         status: string;
     } | null;
-}> {
+} | null> {
     try {
         // Find user by phone
         const user = await prisma.user.findUnique({ where: { phone } });
@@ -712,22 +901,43 @@ export async function resetPassword(
                 req,
                 res
             );
+            return null;
         }
 
-        // Update password
-        await prisma.user.update({
+        const isPasswordValid =
+            !!user.password_hash &&
+            (await bcrypt.compare(currentPassword, user.password_hash));
+        if (!isPasswordValid) {
+            errorHandler(
+                new AuthenticationError("كلمة المرور الحالية غير صحيحة"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        // Update password and invalidate tokens issued before the change
+        const updated = await prisma.user.update({
             where: { phone },
-            data: { password_hash: await bcrypt.hash(password, 10) }
+            data: {
+                password_hash: await bcrypt.hash(password, 10),
+                token_version: { increment: 1 }
+            }
         });
 
+        // Keep the session the change was made from
+        await sessionService.revokeAllSessions(
+            user.id,
+            "PASSWORD_RESET",
+            req.user?.session_id
+        );
+
         logger.info(`Password reset for ${phone}`);
 
-        // Generate auth token
-        const opts: SignOptions = { expiresIn: "30m" };
-        const token = jwt.sign(
-            { id: user.id, phone: user.phone, role: user.role },
-            (await config).JWT_SECRET as string,
-            opts
+        // Re-issue the access token of the current session with the new version
+        const token = await sessionService.signAccessToken(
+            updated,
+            req.user?.session_id
         );
 
         let workerProfile = null;
@@ -743,10 +953,7 @@ export async function resetPassword(
     } catch (err) {
         logger.error(`Error resetting password: ${err}`);
         errorHandler(err, req, res);
-        return {
-            message: "خطأ في إعادة تعيين كلمة المرور",
-            token: ""
-        };
+        return null;
     }
 }
 
@@ -763,26 +970,8 @@ export async function resendOtp(
     res: Response
 ): Promise<{ message: string; token: string }> {
     try {
-        // Find OTP record
-        const otpRecord = await prisma.otp.findUnique({ where: { phone } });
-
-        if (!otpRecord) {
-            errorHandler(
-                new NotFoundError(
-                    "لم يتم العثور على رمز التحقق لمرة واحدة أو انتهت صلاحيته"
-                ),
-                req,
-                res
-            );
-            return {
-                message:
-                    "لم يتم العثور على رمز التحقق لمرة واحدة أو انتهت صلاحيته",
-                token: ""
-            };
-        }
-
-        // Delete used OTP
-        await prisma.otp.delete({ where: { phone } });
+        // Re-issue the pending code, subject to the resend cooldown
+        await otpService.resendOtp(phone);
 
         // Generate temporary token for registration
         const opts: SignOptions = { expiresIn: "30m" };
@@ -792,23 +981,6 @@ export async function resendOtp(
             opts
         );
 
-        // Create New OTP Record
-        // Generate 4-digit OTP
-        const code = Math.floor(1000 + Math.random() * 9000).toString();
-
-        // Expiry: 10 minutes
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-
-        // Save to database
-        await prisma.otp.upsert({
-            where: { phone },
-            update: { code, expiresAt },
-            create: { phone, code, expiresAt }
-        });
-
-        logger.info(`Resending OTP to ${phone}: ${code}`);
-        await sendSMS(phone, code);
-
         return {
             message: "تم إرسال رمز التحقق لمرة واحدة بنجاح",
             token: tempToken
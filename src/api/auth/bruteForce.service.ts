@@ -0,0 +1,384 @@
+import { AuthThrottleKey, OtpPurpose } from "@prisma/client";
+import prisma from "../../prisma.js";
+import {
+    AppError,
+    AuthenticationError,
+    ErrorCode,
+    HttpStatus
+} from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import * as otpService from "../otp/otp.service.js";
+
+export type AuthAction = "LOGIN" | "VERIFY_OTP";
+
+/**
+ * Read the brute-force policy from system settings.
+ *
+ * @returns {Promise<object>} Failure limit, lockout, backoff allowances and cap.
+ */
+export async function getThrottlePolicy() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "auth_max_failed_attempts",
+                    "auth_lockout_minutes",
+                    "auth_backoff_free_attempts",
+                    "auth_backoff_max_seconds",
+                    "auth_ip_free_attempts"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    return {
+        maxFailedAttempts: Number(
+            settingsMap["auth_max_failed_attempts"] ?? 10
+        ),
+        lockoutMinutes: Number(settingsMap["auth_lockout_minutes"] ?? 30),
+        phoneFreeAttempts: Number(
+            settingsMap["auth_backoff_free_attempts"] ?? 3
+        ),
+        maxBackoffSeconds: Number(
+            settingsMap["auth_backoff_max_seconds"] ?? 900
+        ),
+        ipFreeAttempts: Number(settingsMap["auth_ip_free_attempts"] ?? 20)
+    };
+}
+
+/**
+ * Seconds to wait after a failure: nothing within the free allowance, then
+ * doubling with each further failure up to the cap.
+ *
+ * @param {number} failures - Failures so far, including this one.
+ * @param {number} freeAttempts - Failures allowed without waiting.
+ * @param {number} maxSeconds - The longest wait.
+ * @returns {number} The wait in seconds.
+ */
+function backoffSeconds(
+    failures: number,
+    freeAttempts: number,
+    maxSeconds: number
+): number {
+    if (failures <= freeAttempts) return 0;
+    return Math.min(2 ** (failures - freeAttempts), maxSeconds);
+}
+
+/**
+ * Seconds left until a date, rounded up.
+ *
+ * @param {Date} until - The date.
+ * @returns {number} The seconds left.
+ */
+function secondsUntil(until: Date): number {
+    return Math.max(Math.ceil((until.getTime() - Date.now()) / 1000), 1);
+}
+
+/** A counter an attempt was taken from, and what taking it set. */
+export interface ReservedKey {
+    key_type: AuthThrottleKey;
+    key: string;
+    /** Whether the attempt started a backoff */
+    blocked: boolean;
+    /** Whether the attempt locked the phone */
+    locked: boolean;
+}
+
+/**
+ * The error for a counter that is locked or in backoff.
+ *
+ * @param {object} throttle - The counter.
+ * @param {Date} now - The current time.
+ * @returns {AppError | null} The error to report, or null if attempts are allowed.
+ */
+function throttleError(
+    throttle: { locked_until: Date | null; blocked_until: Date | null },
+    now: Date
+): AppError | null {
+    if (throttle.locked_until && throttle.locked_until > now) {
+        return new AppError(
+            "تم قفل الحساب مؤقتاً بسبب كثرة المحاولات الفاشلة",
+            HttpStatus.TOO_MANY_REQUESTS,
+            ErrorCode.ACCOUNT_LOCKED,
+            { retry_after_seconds: secondsUntil(throttle.locked_until) }
+        );
+    }
+
+    if (throttle.blocked_until && throttle.blocked_until > now) {
+        return new AppError(
+            "محاولات فاشلة كثيرة، يرجى المحاولة بعد قليل",
+            HttpStatus.TOO_MANY_REQUESTS,
+            ErrorCode.TOO_MANY_ATTEMPTS,
+            { retry_after_seconds: secondsUntil(throttle.blocked_until) }
+        );
+    }
+
+    return null;
+}
+
+/**
+ * Take an attempt from a phone or IP counter: reject it while the key is
+ * locked or in backoff, otherwise count it as a failure and set the backoff
+ * for the next one. The counter row is locked while this runs, so concurrent
+ * attempts are counted one at a time. Counters go back to zero once a whole
+ * lockout period passes without failures.
+ *
+ * @param {AuthThrottleKey} keyType - Whether the key is a phone or an IP.
+ * @param {string} key - The phone number or IP address.
+ * @param {object} policy - The brute-force policy.
+ * @returns {Promise<ReservedKey>} The reserved attempt.
+ * @throws {AppError} If the key is locked or must wait.
+ */
+async function reserveKey(
+    keyType: AuthThrottleKey,
+    key: string,
+    policy: Awaited<ReturnType<typeof getThrottlePolicy>>
+): Promise<ReservedKey> {
+    const now = new Date();
+    const windowStart = new Date(
+        now.getTime() - policy.lockoutMinutes * 60 * 1000
+    );
+
+    await prisma.authThrottle.createMany({
+        data: [{ key_type: keyType, key }],
+        skipDuplicates: true
+    });
+
+    return await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "AuthThrottle" WHERE "key_type" = ${keyType}::"AuthThrottleKey" AND "key" = ${key} FOR UPDATE`;
+        const throttle = await tx.authThrottle.findUnique({
+            where: { key_type_key: { key_type: keyType, key } }
+        });
+
+        const error = throttleError(throttle, now);
+        if (error) throw error;
+
+        const stale =
+            throttle.last_failure_at && throttle.last_failure_at < windowStart;
+        const failures = (stale ? 0 : throttle.failures) + 1;
+
+        const isPhone = keyType === AuthThrottleKey.PHONE;
+        const wait = backoffSeconds(
+            failures,
+            isPhone ? policy.phoneFreeAttempts : policy.ipFreeAttempts,
+            policy.maxBackoffSeconds
+        );
+        const lock = isPhone && failures >= policy.maxFailedAttempts;
+
+        if (lock) {
+            logger.warn(`Phone ${key} locked after ${failures} attempts`);
+        }
+
+        await tx.authThrottle.update({
+            where: { id: throttle.id },
+            data: {
+                failures,
+                last_failure_at: now,
+                blocked_until:
+                    wait > 0 ? new Date(now.getTime() + wait * 1000) : null,
+                ...(lock && {
+                    locked_until: new Date(
+                        now.getTime() + policy.lockoutMinutes * 60 * 1000
+                    )
+                })
+            }
+        });
+
+        return { key_type: keyType, key, blocked: wait > 0, locked: lock };
+    });
+}
+
+/**
+ * Reserve a login or OTP attempt against the phone and the IP. The attempt
+ * counts as a failure until it is released, so parallel attempts cannot all
+ * slip under the limit.
+ *
+ * @param {string} [phone] - The phone number the attempt is for.
+ * @param {string} [ip] - The IP address the attempt comes from.
+ * @returns {Promise<ReservedKey[]>} The reserved attempts, for releaseAttempt.
+ * @throws {AppError} If the phone is locked or the phone or IP must wait.
+ */
+export async function reserveAttempt(
+    phone?: string,
+    ip?: string
+): Promise<ReservedKey[]> {
+    const policy = await getThrottlePolicy();
+    const reserved: ReservedKey[] = [];
+
+    try {
+        if (phone) {
+            reserved.push(
+                await reserveKey(AuthThrottleKey.PHONE, phone, policy)
+            );
+        }
+        if (ip) {
+            reserved.push(await reserveKey(AuthThrottleKey.IP, ip, policy));
+        }
+    } catch (err) {
+        await releaseAttempt(reserved);
+        throw err;
+    }
+
+    return reserved;
+}
+
+/**
+ * Give back attempts that did not fail, lifting any backoff or lockout they
+ * started. Never throws, so the response is not affected.
+ *
+ * @param {ReservedKey[]} reserved - The attempts from reserveAttempt.
+ * @returns {Promise<void>}
+ */
+export async function releaseAttempt(reserved: ReservedKey[]): Promise<void> {
+    for (const r of reserved) {
+        try {
+            await prisma.authThrottle.updateMany({
+                where: {
+                    key_type: r.key_type,
+                    key: r.key,
+                    failures: { gt: 0 }
+                },
+                data: {
+                    failures: { decrement: 1 },
+                    ...(r.blocked && { blocked_until: null }),
+                    ...(r.locked && { locked_until: null })
+                }
+            });
+        } catch (err) {
+            logger.error(`Error releasing attempt for ${r.key}: ${err}`);
+        }
+    }
+}
+
+/**
+ * Record a failed login or OTP verification for admins to review. The
+ * attempt itself was already counted when bruteForceGuard reserved it.
+ * Never throws, so the caller's own error reaches the client.
+ *
+ * @param {string} phone - The phone number the attempt was for.
+ * @param {string | undefined} ip - The IP address the attempt came from.
+ * @param {AuthAction} action - What was attempted.
+ * @param {string} reason - Why it failed.
+ * @returns {Promise<void>}
+ */
+export async function recordFailure(
+    phone: string,
+    ip: string | undefined,
+    action: AuthAction,
+    reason: string
+): Promise<void> {
+    try {
+        await prisma.authFailure.create({
+            data: { phone, ip_address: ip, action, reason }
+        });
+    } catch (err) {
+        logger.error(`Error recording failed ${action} for ${phone}: ${err}`);
+    }
+}
+
+/**
+ * Clear a phone's failure counter after a successful attempt. The IP counter
+ * is left to expire, so one good account cannot reset an attacker's IP.
+ *
+ * @param {string} phone - The phone number.
+ * @returns {Promise<void>}
+ */
+export async function recordSuccess(phone: string): Promise<void> {
+    await prisma.authThrottle.updateMany({
+        where: {
+            key_type: AuthThrottleKey.PHONE,
+            key: phone,
+            failures: { gt: 0 }
+        },
+        data: { failures: 0, blocked_until: null }
+    });
+}
+
+/**
+ * Verify an OTP, counting a wrong code against the phone and IP.
+ *
+ * @param {string} phone - The phone number.
+ * @param {OtpPurpose} purpose - What the code is for.
+ * @param {string} code - The code entered by the user.
+ * @param {string} [ip] - The IP address the attempt came from.
+ * @returns {Promise<void>}
+ * @throws {AppError} If the code is not valid.
+ */
+export async function verifyOtpCode(
+    phone: string,
+    purpose: OtpPurpose,
+    code: string,
+    ip?: string
+): Promise<void> {
+    try {
+        await otpService.verifyOtp(phone, purpose, code);
+    } catch (err) {
+        if (
+            err instanceof AuthenticationError &&
+            err.errorCode === ErrorCode.INVALID_OTP
+        ) {
+            await recordFailure(phone, ip, "VERIFY_OTP", "INVALID_OTP");
+        }
+        throw err;
+    }
+    await recordSuccess(phone);
+}
+
+/**
+ * Lift a phone's lockout and backoff.
+ *
+ * @param {string} phone - The phone number.
+ * @returns {Promise<boolean>} Whether the phone had a counter to clear.
+ */
+export async function unlockPhone(phone: string): Promise<boolean> {
+    const { count } = await prisma.authThrottle.updateMany({
+        where: { key_type: AuthThrottleKey.PHONE, key: phone },
+        data: { failures: 0, blocked_until: null, locked_until: null }
+    });
+    return count > 0;
+}
+
+/**
+ * Get a phone's lockout state and its latest failed attempts.
+ *
+ * @param {string} phone - The phone number.
+ * @returns {Promise<object>} The counter state and the last 20 failures.
+ */
+export async function getPhoneSecurity(phone: string) {
+    const now = new Date();
+    const [throttle, failedAttempts] = await Promise.all([
+        prisma.authThrottle.findUnique({
+            where: {
+                key_type_key: { key_type: AuthThrottleKey.PHONE, key: phone }
+            }
+        }),
+        prisma.authFailure.findMany({
+            where: { phone },
+            orderBy: { created_at: "desc" },
+            take: 20
+        })
+    ]);
+
+    return {
+        is_locked: !!(throttle?.locked_until && throttle.locked_until > now),
+        locked_until:
+            throttle?.locked_until && throttle.locked_until > now
+                ? throttle.locked_until
+                : null,
+        failures: throttle?.failures || 0,
+        last_failure_at: throttle?.last_failure_at || null,
+        failed_attempts: failedAttempts
+    };
+}
@@ -0,0 +1,376 @@
+import type { Request, Response } from "express";
+import { createHash, randomBytes } from "node:crypto";
+import ms from "ms";
+import jwt, { SignOptions } from "jsonwebtoken";
+import prisma from "../../prisma.js";
+import { config } from "../../config/env.config.js";
+import {
+    AuthenticationError,
+    NotFoundError,
+    ErrorCode
+} from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import { errorHandler } from "../../middlewares/error.middleware.js";
+
+/** Device metadata recorded on a session. */
+export interface SessionDevice {
+    device_name?: string;
+    platform?: string;
+    user_agent?: string;
+    ip_address?: string;
+}
+
+/** Tokens handed to the client when a session is created or refreshed. */
+export interface SessionTokens {
+    token: string;
+    refresh_token: string;
+    session_id: string;
+    expires_at: Date;
+}
+
+/**
+ * Read the device metadata of a request.
+ *
+ * @param {Request} req - The Express request object, optionally containing device_name and platform in body.
+ * @returns {SessionDevice} The device metadata.
+ */
+export function deviceFromRequest(req: Request): SessionDevice {
+    return {
+        device_name: req.body?.device_name,
+        platform: req.body?.platform,
+        user_agent: req.headers["user-agent"],
+        ip_address: req.ip
+    };
+}
+
+/**
+ * Hash a refresh token. Only the hash is stored.
+ *
+ * @param {string} refreshToken - The refresh token.
+ * @returns {string} The SHA-256 hex digest.
+ */
+function hashToken(refreshToken: string): string {
+    return createHash("sha256").update(refreshToken).digest("hex");
+}
+
+/**
+ * Generate an opaque refresh token.
+ *
+ * @returns {string} The refresh token.
+ */
+function generateRefreshToken(): string {
+    return randomBytes(48).toString("base64url");
+}
+
+/**
+ * Sign a short-lived access token bound to a session. The token carries the
+ * user's token version, so bumping it invalidates the token.
+ *
+ * @param {object} user - The user the token is issued to.
+ * @param {string} sessionId - The ID of the session.
+ * @returns {Promise<string>} The access token.
+ */
+export async function signAccessToken(
+    user: { id: string; phone: string; role: string; token_version: number },
+    sessionId: string
+): Promise<string> {
+    const opts: SignOptions = {
+        expiresIn: (await config).JWT_EXPIRY as ms.StringValue
+    };
+    return jwt.sign(
+        {
+            id: user.id,
+            phone: user.phone,
+            role: user.role,
+            sid: sessionId,
+            ver: user.token_version
+        },
+        (await config).JWT_SECRET as string,
+        opts
+    );
+}
+
+/**
+ * Open a session for a user and issue its tokens.
+ *
+ * @param {object} user - The authenticated user.
+ * @param {SessionDevice} device - The device metadata.
+ * @returns {Promise<SessionTokens>} The access token and refresh token.
+ */
+export async function createSession(
+    user: { id: string; phone: string; role: string; token_version: number },
+    device: SessionDevice
+): Promise<SessionTokens> {
+    const refreshToken = generateRefreshToken();
+    const expiresAt = new Date(
+        Date.now() + ms((await config).REFRESH_TOKEN_EXPIRY as ms.StringValue)
+    );
+
+    const session = await prisma.session.create({
+        data: {
+            user_id: user.id,
+            refresh_token_hash: hashToken(refreshToken),
+            device_name: device.device_name,
+            platform: device.platform,
+            user_agent: device.user_agent,
+            ip_address: device.ip_address,
+            expires_at: expiresAt
+        }
+    });
+
+    logger.info(`Session ${session.id} opened for user ${user.id}`);
+
+    return {
+        token: await signAccessToken(user, session.id),
+        refresh_token: refreshToken,
+        session_id: session.id,
+        expires_at: expiresAt
+    };
+}
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * A refresh token can be used once; presenting a rotated-out token again
+ * revokes the whole session.
+ *
+ * @param {string} refreshToken - The refresh token.
+ * @param {SessionDevice} device - The device metadata.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<SessionTokens | null>} The new tokens.
+ */
+export async function refreshSession(
+    refreshToken: string,
+    device: SessionDevice,
+    req: Request,
+    res: Response
+): Promise<SessionTokens | null> {
+    try {
+        const hash = hashToken(refreshToken);
+
+        const session = await prisma.session.findUnique({
+            where: { refresh_token_hash: hash },
+            include: { user: true }
+        });
+
+        if (!session) {
+            const reused = await prisma.session.findFirst({
+                where: { previous_token_hash: hash, revoked_at: null }
+            });
+
+            if (reused) {
+                await revokeSession(reused.id, "REFRESH_REUSE");
+                logger.warn(
+                    `Refresh token reuse detected, session ${reused.id} revoked`
+                );
+            }
+
+            errorHandler(
+                new AuthenticationError(
+                    "رمز التحديث غير صالح",
+                    ErrorCode.INVALID_TOKEN
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (session.revoked_at || session.expires_at < new Date()) {
+            errorHandler(
+                new AuthenticationError(
+                    "انتهت الجلسة، يرجى تسجيل الدخول مرة أخرى",
+                    ErrorCode.SESSION_REVOKED
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (!session.user.is_active) {
+            await revokeSession(session.id, "USER_INACTIVE");
+            errorHandler(
+                new AuthenticationError(
+                    "حساب المستخدم غير نشط",
+                    ErrorCode.SESSION_REVOKED
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const nextToken = generateRefreshToken();
+
+        // Rotate only if the token is still current, so two concurrent
+        // refreshes with the same token cannot both succeed.
+        const { count } = await prisma.session.updateMany({
+            where: { id: session.id, refresh_token_hash: hash },
+            data: {
+                refresh_token_hash: hashToken(nextToken),
+                previous_token_hash: hash,
+                last_used_at: new Date(),
+                user_agent: device.user_agent ?? session.user_agent,
+                ip_address: device.ip_address ?? session.ip_address
+            }
+        });
+
+        if (count === 0) {
+            errorHandler(
+                new AuthenticationError(
+                    "رمز التحديث غير صالح",
+                    ErrorCode.INVALID_TOKEN
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        return {
+            token: await signAccessToken(session.user, session.id),
+            refresh_token: nextToken,
+            session_id: session.id,
+            expires_at: session.expires_at
+        };
+    } catch (err) {
+        logger.error(`Error refreshing session: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Revoke a session. Access tokens bound to it are rejected from then on.
+ *
+ * @param {string} sessionId - The ID of the session.
+ * @param {string} reason - Why the session is revoked.
+ * @returns {Promise<boolean>} Whether an active session was revoked.
+ */
+export async function revokeSession(
+    sessionId: string,
+    reason: string
+): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, revoked_at: null },
+        data: { revoked_at: new Date(), revoked_reason: reason }
+    });
+
+    return count > 0;
+}
+
+/**
+ * Revoke every active session of a user.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} reason - Why the sessions are revoked.
+ * @param {string} [exceptSessionId] - A session to keep, e.g. the current one.
+ * @returns {Promise<number>} The number of sessions revoked.
+ */
+export async function revokeAllSessions(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string
+): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+        where: {
+            user_id: userId,
+            revoked_at: null,
+            ...(exceptSessionId && { id: { not: exceptSessionId } })
+        },
+        data: { revoked_at: new Date(), revoked_reason: reason }
+    });
+
+    if (count > 0) {
+        logger.info(`Revoked ${count} sessions of user ${userId} (${reason})`);
+    }
+
+    return count;
+}
+
+/**
+ * Get the active sessions of a user, most recently used first.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} currentSessionId - The session of the request, flagged as current.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object[] | null>} The sessions.
+ */
+export async function getSessions(
+    userId: string,
+    currentSessionId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const sessions = await prisma.session.findMany({
+            where: {
+                user_id: userId,
+                revoked_at: null,
+                expires_at: { gt: new Date() }
+            },
+            select: {
+                id: true,
+                device_name: true,
+                platform: true,
+                user_agent: true,
+                ip_address: true,
+                created_at: true,
+                last_used_at: true,
+                expires_at: true
+            },
+            orderBy: { last_used_at: "desc" }
+        });
+
+        return sessions.map((s) => ({
+            ...s,
+            current: s.id === currentSessionId
+        }));
+    } catch (err) {
+        logger.error(`Error getting sessions: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Sign a user out of one of their sessions.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} sessionId - The ID of the session.
+ * @param {string} reason - Why the session is revoked.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<boolean | null>} True once the session is revoked.
+ */
+export async function revokeUserSession(
+    userId: string,
+    sessionId: string,
+    reason: string,
+    req: Request,
+    res: Response
+): Promise<boolean | null> {
+    try {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId }
+        });
+
+        if (!session || session.user_id !== userId || session.revoked_at) {
+            errorHandler(new NotFoundError("الجلسة غير موجودة"), req, res);
+            return null;
+        }
+
+        await revokeSession(sessionId, reason);
+
+        logger.info(
+            `Session ${sessionId} of user ${userId} revoked (${reason})`
+        );
+        return true;
+    } catch (err) {
+        logger.error(`Error revoking session: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
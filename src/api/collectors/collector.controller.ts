@@ -0,0 +1,151 @@
+import { Request, Response } from "express";
+import * as collectorService from "./collector.service.js";
+import { ResponseHandler } from "../../utils/response.js";
+import { asyncHandler } from "../../middlewares/error.middleware.js";
+
+/**
+ * Get the collector's assigned kiosks with open dues.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const getKiosks = asyncHandler(async (req: Request, res: Response) => {
+    const collectorId = req.user!.id;
+
+    const kiosks = await collectorService.getAssignedKiosks(
+        collectorId,
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "Assigned kiosks retrieved", kiosks);
+});
+
+/**
+ * Get the open dues of an assigned kiosk.
+ *
+ * @param {Request} req - The Express request object containing kioskId in params.
+ * @param {Response} res - The Express response object.
+ */
+export const getKioskDues = asyncHandler(
+    async (req: Request, res: Response) => {
+        const collectorId = req.user!.id;
+        const { kioskId } = req.params;
+
+        const result = await collectorService.getKioskDues(
+            collectorId,
+            kioskId,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Kiosk dues retrieved", result);
+    }
+);
+
+/**
+ * Record a cash collection at an assigned kiosk.
+ *
+ * @param {Request} req - The Express request object containing kioskId in params and amount and note in body.
+ * @param {Response} res - The Express response object.
+ */
+export const recordCollection = asyncHandler(
+    async (req: Request, res: Response) => {
+        const collectorId = req.user!.id;
+        const { kioskId } = req.params;
+
+        const receipt = await collectorService.recordCollection(
+            collectorId,
+            kioskId,
+            req.body,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.created(res, "Collection recorded", receipt);
+    }
+);
+
+/**
+ * Get the collector's collections that have not been handed over yet.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const getPendingCollections = asyncHandler(
+    async (req: Request, res: Response) => {
+        const collectorId = req.user!.id;
+
+        const result = await collectorService.getPendingCollections(
+            collectorId,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Pending collections retrieved", result);
+    }
+);
+
+/**
+ * Hand over the collected cash.
+ *
+ * @param {Request} req - The Express request object containing declared_amount and note in body.
+ * @param {Response} res - The Express response object.
+ */
+export const submitHandover = asyncHandler(
+    async (req: Request, res: Response) => {
+        const collectorId = req.user!.id;
+
+        const handover = await collectorService.submitHandover(
+            collectorId,
+            req.body,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.created(res, "Handover submitted", handover);
+    }
+);
+
+/**
+ * Get the collector's handovers.
+ *
+ * @param {Request} req - The Express request object containing page and limit in query.
+ * @param {Response} res - The Express response object.
+ */
+export const getHandovers = asyncHandler(
+    async (req: Request, res: Response) => {
+        const collectorId = req.user!.id;
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+
+        const result = await collectorService.getHandovers(
+            collectorId,
+            page,
+            limit,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.paginated(
+            res,
+            result.handovers,
+            "Handovers retrieved",
+            page,
+            limit,
+            result.total
+        );
+    }
+);
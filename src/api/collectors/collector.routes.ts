@@ -0,0 +1,59 @@
+import { Router } from "express";
+import * as collectorController from "./collector.controller.js";
+import {
+    authMiddleware,
+    roleGuard
+} from "../../middlewares/auth.middleware.js";
+import {
+    collectionSchema,
+    handoverSchema
+} from "../../schemas/validation.schema.js";
+import { validateRequest } from "../../middlewares/validate.middleware.js";
+
+const router = Router();
+
+// All collector routes require authentication and the collector role
+router.use(authMiddleware);
+router.use(roleGuard("COLLECTOR"));
+
+/**
+ * GET /api/collector/kiosks
+ * Get assigned kiosks with open dues, oldest due first.
+ */
+router.get("/kiosks", collectorController.getKiosks);
+
+/**
+ * GET /api/collector/kiosks/:kioskId/dues
+ * Get the open dues of an assigned kiosk.
+ */
+router.get("/kiosks/:kioskId/dues", collectorController.getKioskDues);
+
+/**
+ * POST /api/collector/kiosks/:kioskId/collections
+ * Record a cash collection and issue a receipt.
+ */
+router.post(
+    "/kiosks/:kioskId/collections",
+    validateRequest(collectionSchema),
+    collectorController.recordCollection
+);
+
+/**
+ * GET /api/collector/collections
+ * Get collections not handed over yet.
+ */
+router.get("/collections", collectorController.getPendingCollections);
+
+/**
+ * GET /api/collector/handovers
+ * Get handover history.
+ *
+ * POST /api/collector/handovers
+ * Hand over the collected cash at the end of the day.
+ */
+router
+    .route("/handovers")
+    .get(collectorController.getHandovers)
+    .post(validateRequest(handoverSchema), collectorController.submitHandover);
+
+export default router;
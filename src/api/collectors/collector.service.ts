@@ -0,0 +1,373 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import {
+    NotFoundError,
+    AuthorizationError,
+    BusinessLogicError,
+    ConflictError,
+    ErrorCode
+} from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import { errorHandler } from "../../middlewares/error.middleware.js";
+import { Request, Response } from "express";
+import * as notificationService from "../notifications/notifications.service.js";
+import * as duesService from "../dues/dues.service.js";
+
+/**
+ * Find a kiosk assigned to a collector.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {string} collectorId - The ID of the collector.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The kiosk, or null if it is not assigned to the collector.
+ */
+async function findAssignedKiosk(
+    kioskId: string,
+    collectorId: string,
+    req: Request,
+    res: Response
+) {
+    const kiosk = await prisma.kiosk.findUnique({
+        where: { id: kioskId },
+        include: { owner: { select: { full_name: true, phone: true } } }
+    });
+
+    if (!kiosk) {
+        errorHandler(new NotFoundError("Kiosk not found"), req, res);
+        return null;
+    }
+
+    if (kiosk.collector_id !== collectorId) {
+        errorHandler(
+            new AuthorizationError("This kiosk is not assigned to you"),
+            req,
+            res
+        );
+        return null;
+    }
+
+    return kiosk;
+}
+
+/**
+ * Get the collector's assigned kiosks that have open dues, oldest due first.
+ *
+ * @param {string} collectorId - The ID of the collector.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object[] | null>} The kiosks with their outstanding amount.
+ */
+export async function getAssignedKiosks(
+    collectorId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosks = await prisma.kiosk.findMany({
+            where: { collector_id: collectorId },
+            include: {
+                owner: { select: { full_name: true, phone: true } },
+                dues: {
+                    where: { is_paid: false, is_cancelled: false },
+                    orderBy: { created_at: "asc" }
+                }
+            }
+        });
+
+        return kiosks
+            .map((kiosk) => {
+                const outstanding = kiosk.dues.reduce(
+                    (sum, d) => sum.plus(duesService.remainingOf(d)),
+                    new Prisma.Decimal(0)
+                );
+                const oldest = kiosk.dues.find((d) => d.amount.gt(0));
+
+                return {
+                    id: kiosk.id,
+                    name: kiosk.name,
+                    is_active: kiosk.is_active,
+                    owner_name: kiosk.owner.full_name,
+                    owner_phone: kiosk.owner.phone,
+                    outstanding,
+                    open_dues: kiosk.dues.length,
+                    oldest_due_at: oldest?.created_at || null
+                };
+            })
+            .filter((k) => k.outstanding.gt(0))
+            .sort(
+                (a, b) =>
+                    (a.oldest_due_at?.getTime() ?? 0) -
+                    (b.oldest_due_at?.getTime() ?? 0)
+            )
+            .map((k) => ({ ...k, outstanding: k.outstanding.toString() }));
+    } catch (err) {
+        logger.error(`Error getting collector kiosks: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get the open dues of an assigned kiosk.
+ *
+ * @param {string} collectorId - The ID of the collector.
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The kiosk, its open dues and the outstanding amount.
+ */
+export async function getKioskDues(
+    collectorId: string,
+    kioskId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await findAssignedKiosk(kioskId, collectorId, req, res);
+        if (!kiosk) return null;
+
+        const dues = await prisma.kioskDue.findMany({
+            where: { kiosk_id: kioskId, is_paid: false, is_cancelled: false },
+            orderBy: { created_at: "asc" }
+        });
+
+        const outstanding = dues.reduce(
+            (sum, d) => sum.plus(duesService.remainingOf(d)),
+            new Prisma.Decimal(0)
+        );
+
+        return {
+            kiosk: {
+                id: kiosk.id,
+                name: kiosk.name,
+                owner_name: kiosk.owner.full_name,
+                owner_phone: kiosk.owner.phone
+            },
+            outstanding: outstanding.toString(),
+            dues: dues.map((d) => ({
+                id: d.id,
+                amount: d.amount.toString(),
+                paid_amount: d.paid_amount.toString(),
+                remaining_amount: duesService.remainingOf(d).toString(),
+                created_at: d.created_at
+            }))
+        };
+    } catch (err) {
+        logger.error(`Error getting collector kiosk dues: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Record a cash collection at an assigned kiosk. The amount is allocated
+ * oldest-first across the kiosk's open dues and a receipt is issued.
+ *
+ * @param {string} collectorId - The ID of the collector.
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {object} data - The amount collected and an optional note.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The receipt.
+ */
+export async function recordCollection(
+    collectorId: string,
+    kioskId: string,
+    data: { amount: number; note?: string },
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await findAssignedKiosk(kioskId, collectorId, req, res);
+        if (!kiosk) return null;
+
+        const result = await prisma.$transaction((tx) =>
+            duesService.allocatePayment(tx, {
+                kiosk_id: kioskId,
+                amount: data.amount,
+                method: "CASH",
+                note: data.note,
+                collected_by: collectorId
+            })
+        );
+
+        logger.info(
+            `Collector ${collectorId} collected ${data.amount} from kiosk ${kioskId} (${result.payment.receipt_number})`
+        );
+
+        await notificationService.notifyOwnerDuePaid(
+            kiosk.owner_id,
+            kiosk.name,
+            result.payment.amount.toString(),
+            result.outstanding_after.gt(0)
+        );
+
+        return await duesService.getReceipt(result.payment.id);
+    } catch (err) {
+        logger.error(`Error recording collection: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get the collector's collections that have not been handed over yet.
+ *
+ * @param {string} collectorId - The ID of the collector.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The collections and their total.
+ */
+export async function getPendingCollections(
+    collectorId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const payments = await prisma.duePayment.findMany({
+            where: { collected_by: collectorId, handover_id: null },
+            include: { kiosk: { select: { id: true, name: true } } },
+            orderBy: { created_at: "asc" }
+        });
+
+        const total = payments.reduce(
+            (sum, p) => sum.plus(p.amount),
+            new Prisma.Decimal(0)
+        );
+
+        return {
+            total: total.toString(),
+            count: payments.length,
+            collections: payments.map((p) => ({
+                id: p.id,
+                receipt_number: p.receipt_number,
+                amount: p.amount.toString(),
+                kiosk: p.kiosk,
+                note: p.note,
+                created_at: p.created_at
+            }))
+        };
+    } catch (err) {
+        logger.error(`Error getting pending collections: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Hand over every collection not handed over yet. The handover records the
+ * expected total and the cash the collector declares, for an admin to
+ * reconcile.
+ *
+ * @param {string} collectorId - The ID of the collector.
+ * @param {object} data - The declared cash amount and an optional note.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The handover.
+ */
+export async function submitHandover(
+    collectorId: string,
+    data: { declared_amount: number; note?: string },
+    req: Request,
+    res: Response
+) {
+    try {
+        const handover = await prisma.$transaction(async (tx) => {
+            const payments = await tx.duePayment.findMany({
+                where: { collected_by: collectorId, handover_id: null },
+                select: { id: true, amount: true }
+            });
+
+            if (payments.length === 0) {
+                throw new BusinessLogicError(
+                    "No collections to hand over",
+                    ErrorCode.RESOURCE_NOT_FOUND
+                );
+            }
+
+            const expected = payments.reduce(
+                (sum, p) => sum.plus(p.amount),
+                new Prisma.Decimal(0)
+            );
+
+            const created = await tx.collectorHandover.create({
+                data: {
+                    collector_id: collectorId,
+                    payments_count: payments.length,
+                    expected_amount: expected,
+                    declared_amount: data.declared_amount,
+                    note: data.note
+                }
+            });
+
+            const { count } = await tx.duePayment.updateMany({
+                where: {
+                    id: { in: payments.map((p) => p.id) },
+                    handover_id: null
+                },
+                data: { handover_id: created.id }
+            });
+            if (count !== payments.length) {
+                throw new ConflictError(
+                    "Collections were handed over concurrently, please retry"
+                );
+            }
+
+            return created;
+        });
+
+        logger.info(
+            `Collector ${collectorId} handed over ${handover.payments_count} collections (expected ${handover.expected_amount}, declared ${handover.declared_amount})`
+        );
+
+        return {
+            ...handover,
+            declared_difference: handover.declared_amount
+                .minus(handover.expected_amount)
+                .toString()
+        };
+    } catch (err) {
+        logger.error(`Error submitting handover: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get the collector's handovers, newest first.
+ *
+ * @param {string} collectorId - The ID of the collector.
+ * @param {number} page - The page number.
+ * @param {number} limit - The page size.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The handovers and their total count.
+ */
+export async function getHandovers(
+    collectorId: string,
+    page: number,
+    limit: number,
+    req: Request,
+    res: Response
+) {
+    try {
+        const [handovers, total] = await Promise.all([
+            prisma.collectorHandover.findMany({
+                where: { collector_id: collectorId },
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.collectorHandover.count({
+                where: { collector_id: collectorId }
+            })
+        ]);
+
+        return { handovers, total };
+    } catch (err) {
+        logger.error(`Error getting handovers: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
@@ -0,0 +1,142 @@
+import { CommissionRule, Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+
+/**
+ * One amount bracket of a TIERED rule. `up_to` is inclusive; null means no upper bound.
+ */
+export interface CommissionTier {
+    up_to: number | null;
+    model: "FLAT" | "PERCENTAGE";
+    value: number;
+}
+
+/**
+ * The commission charged on a deposit and the rule that produced it.
+ */
+export interface CommissionQuote {
+    commission: Prisma.Decimal;
+    rule: CommissionRule | null;
+}
+
+/**
+ * Find the active rule for a kiosk. Most specific wins:
+ * KIOSK, then KIOSK_TYPE, then GLOBAL.
+ *
+ * @param {object} kiosk - The kiosk the deposit is made from.
+ * @returns {Promise<CommissionRule | null>} The rule, or null if none is configured.
+ */
+export async function resolveCommissionRule(kiosk: {
+    id: string;
+    kiosk_type: string;
+}) {
+    const rules = await prisma.commissionRule.findMany({
+        where: {
+            is_active: true,
+            OR: [
+                { scope: "KIOSK", kiosk_id: kiosk.id },
+                { scope: "KIOSK_TYPE", kiosk_type: kiosk.kiosk_type },
+                { scope: "GLOBAL" }
+            ]
+        },
+        orderBy: { version: "desc" }
+    });
+
+    return (
+        rules.find((r) => r.scope === "KIOSK") ||
+        rules.find((r) => r.scope === "KIOSK_TYPE") ||
+        rules.find((r) => r.scope === "GLOBAL") ||
+        null
+    );
+}
+
+/**
+ * Parse and sort the tiers of a TIERED rule.
+ */
+export function parseTiers(tiers: string | null): CommissionTier[] {
+    if (!tiers) return [];
+    const parsed = JSON.parse(tiers) as CommissionTier[];
+    return parsed.sort(
+        (a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity)
+    );
+}
+
+/**
+ * Apply a rule to an amount. Tiers are not marginal: the bracket the
+ * amount falls in applies to the whole amount. The result is clamped to
+ * the rule's min/max and never exceeds the amount itself.
+ *
+ * @param {CommissionRule} rule - The commission rule.
+ * @param {number} amount - The gross transaction amount.
+ * @returns {Prisma.Decimal} The commission, rounded to the ledger's 2 decimals.
+ */
+export function calculateCommission(
+    rule: CommissionRule,
+    amount: number
+): Prisma.Decimal {
+    let model: string = rule.model;
+    let value = Number(rule.value || 0);
+
+    if (rule.model === "TIERED") {
+        const tier = parseTiers(rule.tiers).find(
+            (t) => t.up_to === null || amount <= t.up_to
+        );
+        model = tier?.model || "FLAT";
+        value = Number(tier?.value || 0);
+    }
+
+    let commission =
+        model === "PERCENTAGE"
+            ? new Prisma.Decimal(amount).times(value).dividedBy(100)
+            : new Prisma.Decimal(value);
+
+    if (rule.min_commission !== null) {
+        commission = Prisma.Decimal.max(commission, rule.min_commission);
+    }
+    if (rule.max_commission !== null) {
+        commission = Prisma.Decimal.min(commission, rule.max_commission);
+    }
+
+    return roundCommission(commission, amount);
+}
+
+/**
+ * Clamp a commission to [0, amount] and round it to the 2 decimals the
+ * ledger and transactions store.
+ *
+ * @param {Prisma.Decimal | number} commission - The raw commission.
+ * @param {number} amount - The gross transaction amount.
+ * @returns {Prisma.Decimal} The rounded commission.
+ */
+function roundCommission(
+    commission: Prisma.Decimal | number,
+    amount: number
+): Prisma.Decimal {
+    return Prisma.Decimal.min(
+        Prisma.Decimal.max(commission, 0),
+        amount
+    ).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Quote the commission for a deposit from a kiosk.
+ * Falls back to the legacy flat `commission_rate` setting when no rule exists.
+ *
+ * @param {object} kiosk - The kiosk the deposit is made from.
+ * @param {number} amount - The gross transaction amount.
+ * @param {number} fallbackFlat - The legacy flat commission.
+ * @returns {Promise<CommissionQuote>} The commission and the rule used.
+ */
+export async function quoteCommission(
+    kiosk: { id: string; kiosk_type: string },
+    amount: number,
+    fallbackFlat: number
+): Promise<CommissionQuote> {
+    const rule = await resolveCommissionRule(kiosk);
+    if (!rule) {
+        return {
+            commission: roundCommission(fallbackFlat, amount),
+            rule: null
+        };
+    }
+    return { commission: calculateCommission(rule, amount), rule };
+}
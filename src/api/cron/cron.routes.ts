@@ -4,6 +4,10 @@ import {
     deleteOldNotifications,
     notifyOwnerDuePending
 } from "../notifications/notifications.service.js";
+import { reconcileWallets } from "../ledger/ledger.service.js";
+import { expirePoints } from "../wallet/wallet.service.js";
+import { processShadowWallets } from "../wallet/shadowWallet.service.js";
+import { generateInvoices } from "../dues/dues.service.js";
 import prisma from "../../prisma.js";
 import logger from "../../utils/logger.js";
 import { ResponseHandler } from "../../utils/response.js";
@@ -87,6 +91,7 @@ router.post(
             const overdueDues = await prisma.kioskDue.findMany({
                 where: {
                     is_paid: false,
+                    is_cancelled: false,
                     created_at: {
                         lt: threeDaysAgo
                     }
@@ -111,7 +116,7 @@ router.post(
                 await notifyOwnerDuePending(
                     due.kiosk.owner_id,
                     due.kiosk.name,
-                    due.amount.toString(),
+                    due.amount.minus(due.paid_amount).toString(),
                     daysPending
                 );
             }
@@ -140,4 +145,130 @@ router.post(
     }
 );
 
+/**
+ * POST /api/v1/cron/reconcile
+ * Triggered by Vercel Cron at 02:00 daily.
+ * Recomputes wallet balances from the ledger and records drift.
+ */
+router.post(
+    "/reconcile",
+    verifyCronAuth,
+    async (req: Request, res: Response) => {
+        logger.info("[Cron] Running Wallet Reconciliation...");
+        try {
+            const run = await reconcileWallets();
+            logger.info(
+                `[Cron] Wallet Reconciliation finished with status ${run.status}`
+            );
+            return ResponseHandler.success(
+                res,
+                "Wallet reconciliation completed",
+                {
+                    runId: run.id,
+                    status: run.status,
+                    issues: run.issues_count
+                }
+            );
+        } catch (err) {
+            logger.error(`[Cron] Error in Wallet Reconciliation: ${err}`);
+            return ResponseHandler.error(
+                res,
+                "Wallet reconciliation failed",
+                "CRON_ERROR",
+                500
+            );
+        }
+    }
+);
+
+/**
+ * POST /api/v1/cron/points-expiry
+ * Triggered by Vercel Cron at 01:00 daily.
+ * Expires points under the expiry policy and sends expiring-soon warnings.
+ */
+router.post(
+    "/points-expiry",
+    verifyCronAuth,
+    async (req: Request, res: Response) => {
+        logger.info("[Cron] Running Points Expiry...");
+        try {
+            const summary = await expirePoints();
+            logger.info("[Cron] Points Expiry completed successfully");
+            return ResponseHandler.success(
+                res,
+                "Points expiry completed",
+                summary
+            );
+        } catch (err) {
+            logger.error(`[Cron] Error in Points Expiry: ${err}`);
+            return ResponseHandler.error(
+                res,
+                "Points expiry failed",
+                "CRON_ERROR",
+                500
+            );
+        }
+    }
+);
+
+/**
+ * POST /api/v1/cron/shadow-wallets
+ * Triggered by Vercel Cron at 10:00 daily.
+ * Sends claim reminder SMS and expires unclaimed shadow wallet balances.
+ */
+router.post(
+    "/shadow-wallets",
+    verifyCronAuth,
+    async (req: Request, res: Response) => {
+        logger.info("[Cron] Running Shadow Wallet Lifecycle...");
+        try {
+            const summary = await processShadowWallets();
+            logger.info("[Cron] Shadow Wallet Lifecycle completed successfully");
+            return ResponseHandler.success(
+                res,
+                "Shadow wallet lifecycle completed",
+                summary
+            );
+        } catch (err) {
+            logger.error(`[Cron] Error in Shadow Wallet Lifecycle: ${err}`);
+            return ResponseHandler.error(
+                res,
+                "Shadow wallet lifecycle failed",
+                "CRON_ERROR",
+                500
+            );
+        }
+    }
+);
+
+/**
+ * POST /api/v1/cron/invoices
+ * Triggered by Vercel Cron at 03:00 daily.
+ * Issues kiosk invoices for the last completed billing period.
+ */
+router.post(
+    "/invoices",
+    verifyCronAuth,
+    async (req: Request, res: Response) => {
+        logger.info("[Cron] Running Kiosk Invoicing...");
+        try {
+            const summary = await generateInvoices();
+            logger.info("[Cron] Kiosk Invoicing completed successfully");
+            return ResponseHandler.success(
+                res,
+                "Kiosk invoicing completed",
+                summary
+            );
+        } catch (err) {
+            logger.error(`[Cron] Error in Kiosk Invoicing: ${err}`);
+            return ResponseHandler.error(
+                res,
+                "Kiosk invoicing failed",
+                "CRON_ERROR",
+                500
+            );
+        }
+    }
+);
+
 export default router;
@@ -4,12 +4,14 @@ import logger from "../../utils/logger.js";
 import { AppError, BusinessLogicError, ErrorCode, HttpStatus, NotFoundError } from "../../utils/response.js";
 import { TxStatus } from "@prisma/client";
 import type { Response, Request } from "express";
+import * as transactionService from "../transactions/transaction.service.js";
+import * as duesService from "../dues/dues.service.js";
 
 /**
  * Get dashboard data for an Owner.
  *
  * @param {string} userId - The ID of the owner.
- * @returns {Promise<{ totalPoints: number; kiosks: Array<{ id: string; name: string; points: number; dues: number }> }>} The dashboard data.
+ * @returns {Promise<{ totalPoints: number; kiosks: Array<{ id: string; name: string; points: number; dues: number; credit: object }> }>} The dashboard data.
  * @throws {NotFoundError} If the user or wallet is not found.
  */
 export async function getOwnerDashboard(
@@ -23,6 +25,7 @@ export async function getOwnerDashboard(
         name: string;
         points: number;
         dues: number;
+        credit: Awaited<ReturnType<typeof duesService.getCreditExposure>>;
     }>;
 } | null> {
     try {
@@ -61,31 +64,38 @@ export async function getOwnerDashboard(
                     where: { status: TxStatus.COMPLETED }
                 },
                 dues: {
-                    where: { is_paid: false }
+                    where: { is_paid: false, is_cancelled: false }
                 }
             }
         });
 
-        const kioskData = kiosks.map((kiosk) => {
-            // Points: Sum of amount_gross of completed transactions
-            const points = kiosk.transactions.reduce(
-                (acc, tx) => acc + Number(tx.commission),
-                0
-            );
+        const kioskData = await Promise.all(
+            kiosks.map(async (kiosk) => {
+                // Points: Sum of amount_gross of completed transactions
+                const points = kiosk.transactions.reduce(
+                    (acc, tx) => acc + Number(tx.commission),
+                    0
+                );
 
-            // Dues: Sum of unpaid dues
-            const dues = kiosk.dues.reduce(
-                (acc, due) => acc + Number(due.amount),
-                0
-            );
+                // Dues: Sum of unpaid dues
+                const dues = kiosk.dues.reduce(
+                    (acc, due) =>
+                        acc + Number(due.amount) - Number(due.paid_amount),
+                    0
+                );
 
-            return {
-                id: kiosk.id,
-                name: kiosk.name,
-                points: Number(points.toFixed(0)),
-                dues: Number(dues.toFixed(0))
-            };
-        });
+                // Credit exposure: unpaid dues against the kiosk's credit policy
+                const credit = await duesService.getCreditExposure(kiosk.id);
+
+                return {
+                    id: kiosk.id,
+                    name: kiosk.name,
+                    points: Number(points.toFixed(0)),
+                    dues: Number(dues.toFixed(0)),
+                    credit
+                };
+            })
+        );
 
         return {
             totalPoints,
@@ -132,6 +142,13 @@ export async function getWorkerDashboard(
         id: string;
         name: string;
     };
+    limits: {
+        max_transaction_amount: number;
+        max_daily_tx: number;
+        max_daily_tx_to_customer: number;
+        transactions_today: number;
+        remaining_today: number;
+    };
 }> | null {
     try {
         const workerprofile = await prisma.workerProfile.findFirst({
@@ -262,6 +279,12 @@ export async function getWorkerDashboard(
             }
         });
 
+        // 4. Effective limits and remaining quota for this profile
+        const dailyStats = await transactionService.getDailyStats(
+            userId,
+            activeProfile.id
+        );
+
         return {
             totalPoints: Number(totalPoints.toFixed(0)),
             goal: goal
@@ -281,6 +304,11 @@ export async function getWorkerDashboard(
             kiosk: {
                 id: kiosk?.id || null,
                 name: kiosk?.name || null
+            },
+            limits: {
+                ...dailyStats.limits,
+                transactions_today: dailyStats.transactions_count,
+                remaining_today: dailyStats.remaining_limit
             }
         };
     } catch (error) {
@@ -0,0 +1,742 @@
+import { randomBytes } from "node:crypto";
+import { KioskDue, Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import {
+    BusinessLogicError,
+    ConflictError,
+    ErrorCode
+} from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import * as notificationService from "../notifications/notifications.service.js";
+
+/**
+ * Supported invoice billing periods.
+ */
+export const BILLING_PERIODS = ["WEEKLY", "MONTHLY"] as const;
+
+export type BillingPeriod = (typeof BILLING_PERIODS)[number];
+
+/**
+ * A payment to record against a kiosk's open dues.
+ */
+export interface DuePaymentInput {
+    kiosk_id: string;
+    amount: number | Prisma.Decimal;
+    collected_by: string;
+    method?: string;
+    note?: string;
+    /** Restrict the allocation to these dues (still oldest-first). */
+    due_ids?: string[];
+    /** Invoice the payment is collected against. */
+    invoice_id?: string;
+}
+
+/**
+ * Remaining amount of a due.
+ *
+ * @param {KioskDue} due - The due.
+ * @returns {Prisma.Decimal} amount - paid_amount.
+ */
+export function remainingOf(
+    due: Pick<KioskDue, "amount" | "paid_amount">
+): Prisma.Decimal {
+    return new Prisma.Decimal(due.amount).minus(due.paid_amount);
+}
+
+/**
+ * Generate a human readable receipt number, e.g. RCPT-20250101-A1B2C3.
+ *
+ * @returns {string} The receipt number.
+ */
+export function generateReceiptNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+    return `RCPT-${date}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Sum the remaining amount of a kiosk's open dues.
+ *
+ * @param {Prisma.TransactionClient} tx - The Prisma client.
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {Date} [before] - Only count dues created before this date.
+ * @returns {Promise<Prisma.Decimal>} The outstanding amount.
+ */
+export async function getOutstanding(
+    tx: Prisma.TransactionClient,
+    kioskId: string,
+    before?: Date
+): Promise<Prisma.Decimal> {
+    const sums = await tx.kioskDue.aggregate({
+        where: {
+            kiosk_id: kioskId,
+            is_paid: false,
+            is_cancelled: false,
+            ...(before && { created_at: { lt: before } })
+        },
+        _sum: { amount: true, paid_amount: true }
+    });
+    return new Prisma.Decimal(sums._sum.amount || 0).minus(
+        sums._sum.paid_amount || 0
+    );
+}
+
+/**
+ * Record a payment and allocate it oldest-first across the kiosk's open dues
+ * inside an open Prisma transaction. Reversal credits (negative dues) are
+ * applied first, then the payment settles dues in creation order; the last
+ * due it reaches may be left partially paid.
+ *
+ * @param {Prisma.TransactionClient} tx - The Prisma transaction client.
+ * @param {DuePaymentInput} input - The payment.
+ * @returns {Promise<object>} The payment, its allocations and the outstanding amount before and after.
+ * @throws {BusinessLogicError} If there is nothing to pay or the payment exceeds the outstanding amount.
+ * @throws {ConflictError} If a due was settled concurrently.
+ */
+export async function allocatePayment(
+    tx: Prisma.TransactionClient,
+    input: DuePaymentInput
+) {
+    const amount = new Prisma.Decimal(input.amount);
+
+    const openDues = await tx.kioskDue.findMany({
+        where: {
+            kiosk_id: input.kiosk_id,
+            is_paid: false,
+            is_cancelled: false,
+            ...(input.due_ids && { id: { in: input.due_ids } })
+        },
+        orderBy: { created_at: "asc" }
+    });
+
+    const outstanding = openDues.reduce(
+        (sum, d) => sum.plus(remainingOf(d)),
+        new Prisma.Decimal(0)
+    );
+
+    if (outstanding.lte(0)) {
+        throw new BusinessLogicError(
+            "No outstanding dues to pay",
+            ErrorCode.RESOURCE_NOT_FOUND
+        );
+    }
+
+    if (amount.gt(outstanding)) {
+        throw new BusinessLogicError(
+            `Payment exceeds the outstanding dues (${outstanding})`,
+            ErrorCode.INVALID_AMOUNT,
+            {
+                outstanding: outstanding.toString(),
+                requested: amount.toString()
+            }
+        );
+    }
+
+    const payment = await tx.duePayment.create({
+        data: {
+            kiosk_id: input.kiosk_id,
+            amount,
+            receipt_number: generateReceiptNumber(),
+            method: input.method,
+            collected_by: input.collected_by,
+            note: input.note,
+            invoice_id: input.invoice_id
+        }
+    });
+
+    // Credits first, then the oldest dues
+    const credits = openDues.filter((d) => remainingOf(d).lt(0));
+    const debits = openDues.filter((d) => remainingOf(d).gt(0));
+
+    let available = credits.reduce(
+        (sum, d) => sum.minus(remainingOf(d)),
+        amount
+    );
+
+    const allocations: Prisma.DuePaymentAllocationCreateManyInput[] = [];
+    const now = new Date();
+
+    const settle = async (due: KioskDue, share: Prisma.Decimal) => {
+        const fullyPaid = share.equals(remainingOf(due));
+        const { count } = await tx.kioskDue.updateMany({
+            where: { id: due.id, paid_amount: due.paid_amount, is_paid: false },
+            data: {
+                paid_amount: { increment: share },
+                ...(fullyPaid && {
+                    is_paid: true,
+                    collected_by: input.collected_by,
+                    paid_at: now
+                })
+            }
+        });
+        if (count === 0) {
+            throw new ConflictError(
+                "A due was settled concurrently, please retry"
+            );
+        }
+        allocations.push({
+            payment_id: payment.id,
+            due_id: due.id,
+            amount: share
+        });
+    };
+
+    for (const due of credits) {
+        await settle(due, remainingOf(due));
+    }
+
+    for (const due of debits) {
+        if (available.lte(0)) break;
+        const remaining = remainingOf(due);
+        const share = Prisma.Decimal.min(remaining, available);
+        await settle(due, share);
+        available = available.minus(share);
+    }
+
+    if (allocations.length > 0) {
+        await tx.duePaymentAllocation.createMany({ data: allocations });
+    }
+
+    if (input.invoice_id) {
+        await tx.invoice.update({
+            where: { id: input.invoice_id },
+            data: { amount_paid: { increment: amount } }
+        });
+    }
+
+    await refreshInvoiceStatuses(tx, input.kiosk_id);
+
+    const outstandingAfter = await getOutstanding(tx, input.kiosk_id);
+
+    logger.info(
+        `[Dues] Payment ${payment.receipt_number} of ${amount} allocated across ${allocations.length} dues for kiosk ${input.kiosk_id}`
+    );
+
+    return {
+        payment,
+        allocations,
+        outstanding_before: outstanding,
+        outstanding_after: outstandingAfter
+    };
+}
+
+/**
+ * Build the receipt of a due payment.
+ *
+ * @param {string} paymentId - The ID of the payment.
+ * @returns {Promise<object | null>} The receipt, or null if the payment does not exist.
+ */
+export async function getReceipt(paymentId: string) {
+    const payment = await prisma.duePayment.findUnique({
+        where: { id: paymentId },
+        include: {
+            kiosk: {
+                select: {
+                    id: true,
+                    name: true,
+                    owner: { select: { full_name: true, phone: true } }
+                }
+            },
+            allocations: {
+                include: {
+                    due: {
+                        select: {
+                            id: true,
+                            amount: true,
+                            paid_amount: true,
+                            is_paid: true,
+                            created_at: true
+                        }
+                    }
+                },
+                orderBy: { created_at: "asc" }
+            }
+        }
+    });
+
+    if (!payment) return null;
+
+    const collector = await prisma.user.findUnique({
+        where: { id: payment.collected_by },
+        select: { full_name: true }
+    });
+
+    return {
+        receipt_number: payment.receipt_number,
+        payment_id: payment.id,
+        amount: payment.amount.toString(),
+        method: payment.method,
+        note: payment.note,
+        paid_at: payment.created_at,
+        collected_by: {
+            id: payment.collected_by,
+            name: collector?.full_name || null
+        },
+        kiosk: {
+            id: payment.kiosk.id,
+            name: payment.kiosk.name,
+            owner_name: payment.kiosk.owner.full_name,
+            owner_phone: payment.kiosk.owner.phone
+        },
+        lines: payment.allocations.map((a) => ({
+            due_id: a.due_id,
+            due_date: a.due.created_at,
+            due_amount: a.due.amount.toString(),
+            allocated: a.amount.toString(),
+            remaining: remainingOf(a.due).toString(),
+            is_paid: a.due.is_paid
+        }))
+    };
+}
+
+/**
+ * Read the balance an owner must keep in their wallet when settling dues
+ * from it.
+ *
+ * @returns {Promise<Prisma.Decimal>} The minimum reserve (0 by default).
+ */
+export async function getOwnerWalletReserve(): Promise<Prisma.Decimal> {
+    const setting = await prisma.systemSetting.findUnique({
+        where: { key: "owner_wallet_min_reserve" }
+    });
+    const reserve = Number(setting?.value ?? 0);
+    return new Prisma.Decimal(
+        Number.isFinite(reserve) && reserve > 0 ? reserve : 0
+    );
+}
+
+// ============================================================================
+// CREDIT POLICY
+// ============================================================================
+
+export type CreditStatus = "OK" | "WARNING" | "BLOCKED";
+
+/**
+ * Read the global kiosk credit policy.
+ *
+ * @returns {Promise<object>} The credit limit and maximum due age (0 = unlimited) and the warning threshold.
+ */
+export async function getCreditPolicy() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "kiosk_credit_limit",
+                    "kiosk_max_due_age_days",
+                    "kiosk_credit_warning_percent"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    return {
+        creditLimit: Number(settingsMap["kiosk_credit_limit"] ?? 0),
+        maxDueAgeDays: Number(settingsMap["kiosk_max_due_age_days"] ?? 0),
+        warningPercent: Number(
+            settingsMap["kiosk_credit_warning_percent"] ?? 80
+        )
+    };
+}
+
+/**
+ * Compute a kiosk's credit exposure: its unpaid dues against the credit
+ * limit and the age of its oldest unpaid due against the maximum due age.
+ * A kiosk is BLOCKED once either limit is exceeded and in the WARNING band
+ * once it reaches the warning share of either limit.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {number} [additional] - Amount of a new due to include (e.g. a send being checked).
+ * @param {Prisma.TransactionClient} [tx] - The Prisma client, to read inside an open transaction.
+ * @returns {Promise<object>} The exposure, or null if the kiosk does not exist.
+ */
+export async function getCreditExposure(
+    kioskId: string,
+    additional = 0,
+    tx: Prisma.TransactionClient = prisma
+) {
+    const [kiosk, policy, outstanding, oldest] = await Promise.all([
+        tx.kiosk.findUnique({
+            where: { id: kioskId },
+            select: { credit_limit: true, max_due_age_days: true }
+        }),
+        getCreditPolicy(),
+        getOutstanding(tx, kioskId),
+        tx.kioskDue.findFirst({
+            where: {
+                kiosk_id: kioskId,
+                is_paid: false,
+                is_cancelled: false,
+                amount: { gt: 0 }
+            },
+            orderBy: { created_at: "asc" },
+            select: { created_at: true }
+        })
+    ]);
+
+    if (!kiosk) return null;
+
+    const creditLimit = Number(kiosk.credit_limit ?? policy.creditLimit);
+    const maxDueAgeDays = kiosk.max_due_age_days ?? policy.maxDueAgeDays;
+    const exposure = outstanding.plus(additional);
+    const oldestAgeDays = oldest
+        ? Math.floor((Date.now() - oldest.created_at.getTime()) / 86_400_000)
+        : 0;
+    const warningShare = policy.warningPercent / 100;
+
+    let status: CreditStatus = "OK";
+    let reason: "CREDIT_LIMIT" | "DUE_AGE" | null = null;
+
+    if (creditLimit > 0 && exposure.gt(creditLimit)) {
+        status = "BLOCKED";
+        reason = "CREDIT_LIMIT";
+    } else if (maxDueAgeDays > 0 && oldestAgeDays > maxDueAgeDays) {
+        status = "BLOCKED";
+        reason = "DUE_AGE";
+    } else if (creditLimit > 0 && exposure.gte(creditLimit * warningShare)) {
+        status = "WARNING";
+        reason = "CREDIT_LIMIT";
+    } else if (
+        maxDueAgeDays > 0 &&
+        oldest &&
+        oldestAgeDays >= maxDueAgeDays * warningShare
+    ) {
+        status = "WARNING";
+        reason = "DUE_AGE";
+    }
+
+    return {
+        status,
+        reason,
+        outstanding: outstanding.toString(),
+        credit_limit: creditLimit > 0 ? creditLimit : null,
+        available_credit:
+            creditLimit > 0
+                ? Prisma.Decimal.max(
+                      new Prisma.Decimal(creditLimit).minus(outstanding),
+                      0
+                  ).toString()
+                : null,
+        utilization_percent:
+            creditLimit > 0
+                ? Number(outstanding.div(creditLimit).times(100).toFixed(1))
+                : null,
+        oldest_unpaid_at: oldest?.created_at || null,
+        oldest_due_age_days: oldestAgeDays,
+        max_due_age_days: maxDueAgeDays > 0 ? maxDueAgeDays : null,
+        warning_percent: policy.warningPercent
+    };
+}
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+/**
+ * Read the configured invoice billing period.
+ *
+ * @returns {Promise<BillingPeriod>} The billing period (MONTHLY by default).
+ */
+export async function getBillingPeriod(): Promise<BillingPeriod> {
+    const setting = await prisma.systemSetting.findUnique({
+        where: { key: "invoice_billing_period" }
+    });
+    const value = setting?.value.replace(/"/g, "").trim().toUpperCase();
+    return BILLING_PERIODS.includes(value as BillingPeriod)
+        ? (value as BillingPeriod)
+        : "MONTHLY";
+}
+
+/**
+ * Get the last billing period that has fully ended.
+ * Weeks run Monday to Sunday; months are calendar months.
+ *
+ * @param {BillingPeriod} period - The billing period.
+ * @param {Date} [now] - The reference date.
+ * @returns {{ start: Date; end: Date }} The period, with an exclusive end.
+ */
+export function getLastCompletedPeriod(
+    period: BillingPeriod,
+    now: Date = new Date()
+): { start: Date; end: Date } {
+    const end = new Date(now);
+    end.setHours(0, 0, 0, 0);
+
+    const start = new Date(end);
+    if (period === "WEEKLY") {
+        end.setDate(end.getDate() - ((end.getDay() + 6) % 7));
+        start.setTime(end.getTime());
+        start.setDate(start.getDate() - 7);
+    } else {
+        end.setDate(1);
+        start.setTime(end.getTime());
+        start.setMonth(start.getMonth() - 1);
+    }
+
+    return { start, end };
+}
+
+/**
+ * Generate a human readable invoice number, e.g. INV-20250101-A1B2C3.
+ *
+ * @param {Date} periodStart - The start of the billing period.
+ * @returns {string} The invoice number.
+ */
+function generateInvoiceNumber(periodStart: Date): string {
+    const y = periodStart.getFullYear();
+    const m = String(periodStart.getMonth() + 1).padStart(2, "0");
+    const d = String(periodStart.getDate()).padStart(2, "0");
+    return `INV-${y}${m}${d}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Mark a kiosk's unpaid invoices as PAID once every due billed up to the end
+ * of their period is settled, or PARTIALLY_PAID once part of it was paid.
+ *
+ * @param {Prisma.TransactionClient} tx - The Prisma transaction client.
+ * @param {string} kioskId - The ID of the kiosk.
+ * @returns {Promise<void>}
+ */
+export async function refreshInvoiceStatuses(
+    tx: Prisma.TransactionClient,
+    kioskId: string
+) {
+    const invoices = await tx.invoice.findMany({
+        where: { kiosk_id: kioskId, status: { not: "PAID" } }
+    });
+
+    for (const invoice of invoices) {
+        const remaining = await getOutstanding(tx, kioskId, invoice.period_end);
+
+        if (remaining.lte(0)) {
+            await tx.invoice.update({
+                where: { id: invoice.id },
+                data: { status: "PAID", paid_at: new Date() }
+            });
+        } else if (
+            invoice.status === "OPEN" &&
+            remaining.lt(invoice.amount_due)
+        ) {
+            await tx.invoice.update({
+                where: { id: invoice.id },
+                data: { status: "PARTIALLY_PAID" }
+            });
+        }
+    }
+}
+
+/**
+ * Issue the invoice of one kiosk for a billing period. Dues created during
+ * the period become the invoice lines; the amount due is everything still
+ * outstanding from dues created before the end of the period.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {{ start: Date; end: Date }} period - The billing period.
+ * @returns {Promise<object | null>} The invoice, or null if there is nothing to bill.
+ */
+async function issueInvoice(
+    kioskId: string,
+    period: { start: Date; end: Date }
+) {
+    return prisma.$transaction(async (tx) => {
+        const lines = await tx.kioskDue.findMany({
+            where: {
+                kiosk_id: kioskId,
+                invoice_id: null,
+                is_cancelled: false,
+                created_at: { gte: period.start, lt: period.end }
+            }
+        });
+
+        const [amountDue, payments, previous] = await Promise.all([
+            getOutstanding(tx, kioskId, period.end),
+            tx.duePayment.aggregate({
+                where: {
+                    kiosk_id: kioskId,
+                    created_at: { gte: period.start, lt: period.end }
+                },
+                _sum: { amount: true }
+            }),
+            tx.invoice.findFirst({
+                where: {
+                    kiosk_id: kioskId,
+                    period_start: { lt: period.start }
+                },
+                orderBy: { period_start: "desc" }
+            })
+        ]);
+
+        if (lines.length === 0 && amountDue.lte(0)) return null;
+
+        const linesTotal = lines.reduce(
+            (sum, d) => sum.plus(d.amount),
+            new Prisma.Decimal(0)
+        );
+        const paymentsReceived = new Prisma.Decimal(payments._sum.amount || 0);
+        const previousBalance = new Prisma.Decimal(previous?.amount_due || 0);
+
+        const invoice = await tx.invoice.create({
+            data: {
+                invoice_number: generateInvoiceNumber(period.start),
+                kiosk_id: kioskId,
+                period_start: period.start,
+                period_end: period.end,
+                lines_count: lines.length,
+                lines_total: linesTotal,
+                previous_balance: previousBalance,
+                payments_received: paymentsReceived,
+                adjustments: amountDue
+                    .minus(previousBalance)
+                    .minus(linesTotal)
+                    .plus(paymentsReceived),
+                amount_due: amountDue,
+                ...(amountDue.lte(0) && { status: "PAID", paid_at: new Date() })
+            }
+        });
+
+        if (lines.length > 0) {
+            await tx.kioskDue.updateMany({
+                where: { id: { in: lines.map((d) => d.id) } },
+                data: { invoice_id: invoice.id }
+            });
+        }
+
+        return invoice;
+    });
+}
+
+/**
+ * Issue invoices for the last completed billing period to every kiosk that
+ * had dues during the period or still carries an outstanding balance.
+ * Kiosks already invoiced for the period are skipped, so the job is safe to
+ * run more than once.
+ *
+ * @param {Date} [now] - The reference date.
+ * @returns {Promise<object>} A summary of the run.
+ */
+export async function generateInvoices(now: Date = new Date()) {
+    const billingPeriod = await getBillingPeriod();
+    const period = getLastCompletedPeriod(billingPeriod, now);
+
+    const kiosks = await prisma.kiosk.findMany({
+        where: {
+            invoices: { none: { period_start: period.start } },
+            dues: {
+                some: {
+                    created_at: { lt: period.end },
+                    OR: [
+                        { created_at: { gte: period.start } },
+                        { is_paid: false, is_cancelled: false }
+                    ]
+                }
+            }
+        },
+        select: { id: true, name: true, owner_id: true }
+    });
+
+    let issued = 0;
+    let failed = 0;
+
+    for (const kiosk of kiosks) {
+        try {
+            const invoice = await issueInvoice(kiosk.id, period);
+            if (!invoice) continue;
+
+            issued++;
+            await notificationService.notifyOwnerInvoiceIssued(
+                kiosk.owner_id,
+                kiosk.name,
+                invoice.invoice_number,
+                invoice.amount_due.toString()
+            );
+        } catch (err) {
+            failed++;
+            logger.error(
+                `[Invoices] Failed to invoice kiosk ${kiosk.id}: ${err}`
+            );
+        }
+    }
+
+    logger.info(
+        `[Invoices] ${billingPeriod} period ${period.start.toISOString()} - ${period.end.toISOString()}: ${issued} invoices issued, ${failed} failed`
+    );
+
+    return {
+        billing_period: billingPeriod,
+        period_start: period.start,
+        period_end: period.end,
+        kiosks_checked: kiosks.length,
+        invoices_issued: issued,
+        failed
+    };
+}
+
+/**
+ * Get an invoice with its lines, payments and remaining balance.
+ *
+ * @param {string} invoiceId - The ID of the invoice.
+ * @returns {Promise<object | null>} The invoice, or null if it does not exist.
+ */
+export async function getInvoice(invoiceId: string) {
+    const invoice = await prisma.invoice.findUnique({
+        where: { id: invoiceId },
+        include: {
+            kiosk: {
+                select: {
+                    id: true,
+                    name: true,
+                    owner_id: true,
+                    owner: { select: { full_name: true, phone: true } }
+                }
+            },
+            dues: { orderBy: { created_at: "asc" } },
+            payments: {
+                select: {
+                    id: true,
+                    receipt_number: true,
+                    amount: true,
+                    method: true,
+                    created_at: true
+                },
+                orderBy: { created_at: "asc" }
+            }
+        }
+    });
+
+    if (!invoice) return null;
+
+    const remaining =
+        invoice.status === "PAID"
+            ? new Prisma.Decimal(0)
+            : await getOutstanding(
+                  prisma,
+                  invoice.kiosk_id,
+                  invoice.period_end
+              );
+
+    const { dues, ...rest } = invoice;
+
+    return {
+        ...rest,
+        remaining: remaining.toString(),
+        lines: dues.map((d) => ({
+            due_id: d.id,
+            transaction_id: d.transaction_id,
+            date: d.created_at,
+            amount: d.amount.toString(),
+            paid_amount: d.paid_amount.toString(),
+            is_paid: d.is_paid,
+            is_cancelled: d.is_cancelled
+        }))
+    };
+}
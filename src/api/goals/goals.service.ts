@@ -10,6 +10,7 @@ import {
 import logger from "../../utils/logger.js";
 import { Goal } from "@prisma/client";
 import type { Request, Response } from "express";
+import * as ledgerService from "../ledger/ledger.service.js";
 
 export async function setKioskGoal(
     ownerId: string,
@@ -272,7 +273,8 @@ export async function checkDailyGoals() {
                         pendingCommission,
                         todayStart,
                         todayEnd,
-                        worker.id
+                        worker.id,
+                        goal.id
                     );
                 } else {
                     // Goal Failed: Forfeit funds (Owner keeps them).
@@ -302,6 +304,8 @@ export async function checkDailyGoals() {
  * @param {number} amount - The amount to release.
  * @param {Date} startDate - The start date of the period.
  * @param {Date} endDate - The end date of the period.
+ * @param {string} [workerProfileId] - Optional worker profile to scope the release to.
+ * @param {string} [goalId] - Optional goal that triggered the release.
  */
 async function releaseCommission(
     workerId: string,
@@ -309,7 +313,8 @@ async function releaseCommission(
     amount: number,
     startDate: Date,
     endDate: Date,
-    workerProfileId?: string
+    workerProfileId?: string,
+    goalId?: string
 ) {
     if (amount <= 0) return;
 
@@ -346,6 +351,17 @@ async function releaseCommission(
             where: whereClause,
             data: { commission_status: "PAID" }
         });
+
+        // 3. Post ledger journal for the settlement
+        await ledgerService.recordJournal(
+            tx,
+            { type: "GOAL_SETTLEMENT", goal_id: goalId },
+            [
+                ledgerService.walletLine("OWNER", ownerId, "DEBIT", amount),
+                ledgerService.walletLine("WORKER", workerId, "CREDIT", amount)
+            ],
+            "Held commission released"
+        );
     });
 }
 
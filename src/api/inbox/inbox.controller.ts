@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import * as inboxService from "./inbox.service.js";
+import { ResponseHandler } from "../../utils/response.js";
+import { asyncHandler } from "../../middlewares/error.middleware.js";
+
+/**
+ * Get captured outbound messages.
+ *
+ * @param {Request} req - The Express request object containing phone, purpose, page and limit in query.
+ * @param {Response} res - The Express response object.
+ */
+export const getMessages = asyncHandler(async (req: Request, res: Response) => {
+    const result = await inboxService.getMessages(req.query, req, res);
+
+    if (res.headersSent) return;
+
+    ResponseHandler.paginated(
+        res,
+        result.messages,
+        "Messages retrieved",
+        result.page,
+        result.limit,
+        result.total
+    );
+});
+
+/**
+ * Clear captured outbound messages.
+ *
+ * @param {Request} req - The Express request object containing an optional phone in query.
+ * @param {Response} res - The Express response object.
+ */
+export const clearMessages = asyncHandler(
+    async (req: Request, res: Response) => {
+        const deleted = await inboxService.clearMessages(
+            req.query.phone as string | undefined,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Messages cleared", { deleted });
+    }
+);
@@ -0,0 +1,56 @@
+import { Router, Request, Response, NextFunction } from "express";
+import * as inboxController from "./inbox.controller.js";
+import * as inboxService from "./inbox.service.js";
+import {
+    authMiddleware,
+    adminRoleGuard
+} from "../../middlewares/auth.middleware.js";
+import {
+    errorHandler,
+    notFoundHandler
+} from "../../middlewares/error.middleware.js";
+
+const router = Router();
+
+/**
+ * Middleware to restrict the inbox. Open in development and test; elsewhere
+ * it does not exist unless the message_inbox_enabled setting is on, and then
+ * only super admins can read it.
+ */
+async function verifyInboxAccess(
+    req: Request,
+    res: Response,
+    next: NextFunction
+) {
+    if (inboxService.isDevEnvironment()) {
+        return next();
+    }
+
+    try {
+        if (!(await inboxService.isInboxEnabled())) {
+            return notFoundHandler(req, res);
+        }
+    } catch (err) {
+        return errorHandler(err, req, res);
+    }
+
+    return authMiddleware(req, res, () =>
+        adminRoleGuard("SUPER_ADMIN")(req, res, next)
+    );
+}
+
+router.use(verifyInboxAccess);
+
+/**
+ * GET /api/dev/inbox
+ * Get captured outbound messages, filtered by phone and purpose.
+ *
+ * DELETE /api/dev/inbox
+ * Clear captured messages, optionally only those of one phone.
+ */
+router
+    .route("/")
+    .get(inboxController.getMessages)
+    .delete(inboxController.clearMessages);
+
+export default router;
@@ -0,0 +1,118 @@
+import { Request, Response } from "express";
+import prisma from "../../prisma.js";
+import logger from "../../utils/logger.js";
+import { errorHandler } from "../../middlewares/error.middleware.js";
+
+/**
+ * Whether the server runs in an environment where the inbox is open to
+ * everyone (development and test).
+ *
+ * @returns {boolean} True in development and test.
+ */
+export function isDevEnvironment(): boolean {
+    return ["development", "test"].includes(process.env.NODE_ENV || "");
+}
+
+/**
+ * Whether outbound messages are captured. Always on in development and test;
+ * elsewhere only when the message_inbox_enabled setting is turned on.
+ *
+ * @returns {Promise<boolean>} True if the inbox is enabled.
+ */
+export async function isInboxEnabled(): Promise<boolean> {
+    if (isDevEnvironment()) return true;
+
+    const setting = await prisma.systemSetting.findUnique({
+        where: { key: "message_inbox_enabled" }
+    });
+    return setting?.value === "true";
+}
+
+/**
+ * Keep a copy of an outbound message if the inbox is enabled. Never throws,
+ * so a capture failure cannot stop the message from being sent.
+ *
+ * @param {string} phone - The recipient's phone number.
+ * @param {string} purpose - The OTP purpose or message kind.
+ * @param {string} body - The message body.
+ * @returns {Promise<void>}
+ */
+export async function captureMessage(
+    phone: string,
+    purpose: string,
+    body: string
+): Promise<void> {
+    try {
+        if (!(await isInboxEnabled())) return;
+
+        await prisma.outboundMessage.create({
+            data: { phone, purpose, body }
+        });
+    } catch (err) {
+        logger.error(`[Inbox] Error capturing message: ${err}`);
+    }
+}
+
+/**
+ * Get captured messages, newest first.
+ *
+ * @param {object} filters - Filters for phone, purpose and pagination.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} Paginated messages.
+ */
+export async function getMessages(
+    filters: { [key: string]: unknown },
+    req: Request,
+    res: Response
+) {
+    try {
+        const { phone, purpose, page = 1, limit = 20 } = filters;
+        const skip = (Number(page) - 1) * Number(limit);
+
+        const where: { [key: string]: unknown } = {};
+        if (phone) where.phone = phone;
+        if (purpose) where.purpose = purpose;
+
+        const [messages, total] = await Promise.all([
+            prisma.outboundMessage.findMany({
+                where,
+                skip,
+                take: Number(limit),
+                orderBy: { created_at: "desc" }
+            }),
+            prisma.outboundMessage.count({ where })
+        ]);
+
+        return { messages, total, page: Number(page), limit: Number(limit) };
+    } catch (err) {
+        logger.error(`Error getting inbox messages: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Delete captured messages, optionally only those of one phone.
+ *
+ * @param {string} [phone] - The phone number to clear.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<number | null>} The number of messages deleted.
+ */
+export async function clearMessages(
+    phone: string | undefined,
+    req: Request,
+    res: Response
+) {
+    try {
+        const { count } = await prisma.outboundMessage.deleteMany({
+            where: phone ? { phone } : {}
+        });
+        return count;
+    } catch (err) {
+        logger.error(`Error clearing inbox messages: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
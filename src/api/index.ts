@@ -8,8 +8,10 @@ import dashboardRoutes from "./dashboard/dashboard.routes.js";
 import profileRoutes from "./profile/profile.routes.js";
 import goalsRoutes from "./goals/goals.routes.js";
 import notificationsRoutes from "./notifications/notifications.routes.js";
-import otpRoutes from "./otp/otp.routes.js";
+import inboxRoutes from "./inbox/inbox.routes.js";
 import cronRoutes from "./cron/cron.routes.js";
+import collectorRoutes from "./collectors/collector.routes.js";
+import pinRoutes from "./pin/pin.routes.js";
 
 const router = Router();
 
@@ -26,7 +28,9 @@ router.use("/dashboard", dashboardRoutes);
 router.use("/goals", goalsRoutes);
 router.use("/profile", profileRoutes);
 router.use("/notifications", notificationsRoutes);
-router.use("/otp", otpRoutes);
+router.use("/dev/inbox", inboxRoutes);
 router.use("/cron", cronRoutes);
+router.use("/collector", collectorRoutes);
+router.use("/pin", pinRoutes);
 
 export default router;
@@ -139,6 +139,36 @@ export const getWorkers = asyncHandler(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Set a worker's transaction limits.
+ *
+ * @param {Request} req - The Express request object containing kioskId and workerProfileId in params.
+ * @param {Response} res - The Express response object.
+ */
+export const updateWorkerLimits = asyncHandler(
+    async (req: Request, res: Response) => {
+        const ownerId = req.user!.id;
+        const { kioskId, workerProfileId } = req.params;
+
+        const result = await kioskService.updateWorkerLimits(
+            kioskId,
+            workerProfileId,
+            ownerId,
+            req.body,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(
+            res,
+            "Worker limits updated successfully",
+            result
+        );
+    }
+);
+
 /**
  * Get kiosk dues.
  *
@@ -156,6 +186,86 @@ export const getDues = asyncHandler(async (req: Request, res: Response) => {
     ResponseHandler.success(res, "Kiosk dues retrieved successfully", result);
 });
 
+/**
+ * Settle kiosk dues from the owner's wallet.
+ *
+ * @param {Request} req - The Express request object containing kioskId in params and an optional amount in body.
+ * @param {Response} res - The Express response object.
+ */
+export const settleDues = asyncHandler(async (req: Request, res: Response) => {
+    const ownerId = req.user!.id;
+    const { kioskId } = req.params;
+    const { amount } = req.body;
+
+    const result = await kioskService.settleDuesFromWallet(
+        kioskId,
+        ownerId,
+        amount,
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "Dues settled successfully", result);
+});
+
+/**
+ * Get kiosk invoices.
+ *
+ * @param {Request} req - The Express request object containing kioskId in params and page and limit in query.
+ * @param {Response} res - The Express response object.
+ */
+export const getInvoices = asyncHandler(async (req: Request, res: Response) => {
+    const ownerId = req.user!.id;
+    const { kioskId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await kioskService.getKioskInvoices(
+        kioskId,
+        ownerId,
+        page,
+        limit,
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.paginated(
+        res,
+        result.invoices,
+        "Kiosk invoices retrieved successfully",
+        page,
+        limit,
+        result.total
+    );
+});
+
+/**
+ * Get a kiosk invoice.
+ *
+ * @param {Request} req - The Express request object containing kioskId and invoiceId in params.
+ * @param {Response} res - The Express response object.
+ */
+export const getInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const ownerId = req.user!.id;
+    const { kioskId, invoiceId } = req.params;
+
+    const result = await kioskService.getKioskInvoice(
+        kioskId,
+        invoiceId,
+        ownerId,
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "Invoice retrieved successfully", result);
+});
+
 /**
  * Get user's kiosks.
  *
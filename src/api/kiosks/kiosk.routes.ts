@@ -8,9 +8,12 @@ import {
     createKioskSchema,
     invitationResponseSchema,
     inviteWorkerSchema,
-    removeWorkerSchema
+    removeWorkerSchema,
+    settleDuesSchema,
+    transactionLimitsSchema
 } from "../../schemas/validation.schema.js";
 import { validateRequest } from "../../middlewares/validate.middleware.js";
+import { transactionPin } from "../../middlewares/transactionPin.middleware.js";
 
 const router = Router();
 
@@ -78,12 +81,55 @@ router
         kioskController.removeWorker
     );
 
+/**
+ * PUT /api/kiosks/:kioskId/workers/:workerProfileId/limits
+ * Set worker transaction limits within the kiosk limits (Owner only).
+ */
+router.put(
+    "/:kioskId/workers/:workerProfileId/limits",
+    roleGuard("OWNER"),
+    validateRequest(transactionLimitsSchema),
+    kioskController.updateWorkerLimits
+);
+
 /**
  * GET /api/kiosks/:kioskId/dues
  * Get kiosk dues (Owner only).
  */
 router.get("/:kioskId/dues", roleGuard("OWNER"), kioskController.getDues);
 
+/**
+ * POST /api/kiosks/:kioskId/dues/settle
+ * Settle kiosk dues from the owner's wallet balance (Owner only).
+ */
+router.post(
+    "/:kioskId/dues/settle",
+    roleGuard("OWNER"),
+    validateRequest(settleDuesSchema),
+    transactionPin(),
+    kioskController.settleDues
+);
+
+/**
+ * GET /api/kiosks/:kioskId/invoices
+ * Get kiosk invoices (Owner only).
+ */
+router.get(
+    "/:kioskId/invoices",
+    roleGuard("OWNER"),
+    kioskController.getInvoices
+);
+
+/**
+ * GET /api/kiosks/:kioskId/invoices/:invoiceId
+ * Get a kiosk invoice with its lines and payments (Owner only).
+ */
+router.get(
+    "/:kioskId/invoices/:invoiceId",
+    roleGuard("OWNER"),
+    kioskController.getInvoice
+);
+
 /**
  * GET /api/kiosks/:kioskId
  * Get kiosk details (Owner only).
@@ -1,4 +1,5 @@
 import prisma from "../../prisma.js";
+import { Prisma } from "@prisma/client";
 import {
     NotFoundError,
     AuthorizationError,
@@ -11,6 +12,9 @@ import logger from "../../utils/logger.js";
 import { errorHandler } from "../../middlewares/error.middleware.js";
 import { Request, Response } from "express";
 import * as notificationService from "../notifications/notifications.service.js";
+import * as ledgerService from "../ledger/ledger.service.js";
+import * as transactionService from "../transactions/transaction.service.js";
+import * as duesService from "../dues/dues.service.js";
 
 /**
  * Create new kiosk.
@@ -438,7 +442,12 @@ export async function getKioskWorkers(
             phone: w.user.phone,
             name: w.name,
             status: w.status,
-            is_active: w.user.is_active
+            is_active: w.user.is_active,
+            limits: {
+                max_transaction_amount: w.max_transaction_amount,
+                max_daily_tx: w.max_daily_tx,
+                max_daily_tx_to_customer: w.max_daily_tx_to_customer
+            }
         }));
     } catch (err) {
         logger.error(`Error getting kiosk workers: ${err}`);
@@ -455,6 +464,133 @@ export async function getKioskWorkers(
     }
 }
 
+/**
+ * Set a worker's transaction limit overrides (Owner only).
+ * Overrides can only tighten the kiosk limits; null resets to the kiosk limit.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {string} workerProfileId - The ID of the worker profile.
+ * @param {string} ownerId - The ID of the owner.
+ * @param {object} limits - The limit overrides.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object>} The worker's overrides and effective limits.
+ */
+export async function updateWorkerLimits(
+    kioskId: string,
+    workerProfileId: string,
+    ownerId: string,
+    limits: {
+        max_transaction_amount?: number | null;
+        max_daily_tx?: number | null;
+        max_daily_tx_to_customer?: number | null;
+    },
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await prisma.kiosk.findUnique({
+            where: { id: kioskId }
+        });
+
+        if (!kiosk) {
+            errorHandler(
+                new NotFoundError("لم يتم العثور على الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (kiosk.owner_id !== ownerId) {
+            errorHandler(
+                new AuthorizationError("أنت لست مالك هذا الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const profile = await prisma.workerProfile.findFirst({
+            where: { id: workerProfileId, kiosk_id: kioskId }
+        });
+
+        if (!profile) {
+            errorHandler(
+                new NotFoundError("لم يتم العثور على العامل في هذا الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        // Check against the kiosk ceilings set by the admin
+        const { ceilings } =
+            await transactionService.getEffectiveLimits(kioskId);
+        const checks: [keyof typeof limits, number][] = [
+            ["max_transaction_amount", ceilings.maxTransactionAmount],
+            ["max_daily_tx", ceilings.maxDailyTxPerWorker],
+            ["max_daily_tx_to_customer", ceilings.maxDailyTxToCustomer]
+        ];
+
+        for (const [field, ceiling] of checks) {
+            const value = limits[field];
+            if (value !== undefined && value !== null && value > ceiling) {
+                errorHandler(
+                    new BusinessLogicError(
+                        `لا يمكن أن يتجاوز الحد ${ceiling} المسموح به لهذا الكشك`,
+                        ErrorCode.LIMIT_ABOVE_CEILING,
+                        { field, ceiling, requested: value }
+                    ),
+                    req,
+                    res
+                );
+                return null;
+            }
+        }
+
+        const updated = await prisma.workerProfile.update({
+            where: { id: workerProfileId },
+            data: limits
+        });
+
+        const effective = await transactionService.getEffectiveLimits(
+            kioskId,
+            workerProfileId
+        );
+
+        logger.info(
+            `Owner ${ownerId} updated limits for worker profile ${workerProfileId}`
+        );
+
+        return {
+            id: updated.id,
+            limits: {
+                max_transaction_amount: updated.max_transaction_amount,
+                max_daily_tx: updated.max_daily_tx,
+                max_daily_tx_to_customer: updated.max_daily_tx_to_customer
+            },
+            effective_limits: {
+                max_transaction_amount: effective.maxTransactionAmount,
+                max_daily_tx: effective.maxDailyTxPerWorker,
+                max_daily_tx_to_customer: effective.maxDailyTxToCustomer
+            }
+        };
+    } catch (err) {
+        logger.error(`Error updating worker limits: ${err}`);
+        errorHandler(
+            new AppError(
+                "حدث خطأ أثناء تحديث حدود العامل",
+                500,
+                ErrorCode.INTERNAL_ERROR
+            ),
+            req,
+            res
+        );
+        return null;
+    }
+}
+
 /**
  * Get kiosk dues.
  *
@@ -513,23 +649,29 @@ export async function getKioskDues(
         }
 
         const dues = await prisma.kioskDue.findMany({
-            where: { kiosk_id: kioskId },
+            where: { kiosk_id: kioskId, is_cancelled: false },
             orderBy: { created_at: "desc" }
         });
 
         const totalDue = dues.reduce((sum, d) => sum + Number(d.amount), 0);
         const totalPaid = dues.filter((d) => d.is_paid).length;
+        const outstanding = dues
+            .filter((d) => !d.is_paid)
+            .reduce((sum, d) => sum + Number(duesService.remainingOf(d)), 0);
 
         return {
             dues: dues.map((d) => ({
                 id: d.id,
                 amount: d.amount.toString(),
+                paid_amount: d.paid_amount.toString(),
+                remaining_amount: duesService.remainingOf(d).toString(),
                 is_paid: d.is_paid,
                 created_at: d.created_at
             })),
             summary: {
                 total_dues: dues.length,
                 total_amount: totalDue.toString(),
+                outstanding_amount: outstanding.toString(),
                 paid_count: totalPaid,
                 pending_count: dues.length - totalPaid
             }
@@ -557,6 +699,283 @@ export async function getKioskDues(
     }
 }
 
+/**
+ * Settle a kiosk's outstanding dues from the owner's wallet. The wallet is
+ * debited, the payment is allocated oldest-first across the open dues and the
+ * settlement is posted to the ledger against the payment, which records the
+ * owner as its payer, all in one database transaction. The owner must keep
+ * the configured minimum reserve.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {string} ownerId - The ID of the owner.
+ * @param {number} [amount] - The amount to settle; defaults to as much as the wallet allows.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object>} The receipt and the remaining wallet balance.
+ */
+export async function settleDuesFromWallet(
+    kioskId: string,
+    ownerId: string,
+    amount: number | undefined,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await prisma.kiosk.findUnique({
+            where: { id: kioskId }
+        });
+
+        if (!kiosk) {
+            errorHandler(
+                new NotFoundError("لم يتم العثور على الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (kiosk.owner_id !== ownerId) {
+            errorHandler(
+                new AuthorizationError("أنت لست مالك هذا الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const reserve = await duesService.getOwnerWalletReserve();
+
+        const result = await prisma.$transaction(async (tx) => {
+            const [wallet, outstanding] = await Promise.all([
+                tx.wallet.findUnique({ where: { user_id: ownerId } }),
+                duesService.getOutstanding(tx, kioskId)
+            ]);
+
+            if (outstanding.lte(0)) {
+                throw new BusinessLogicError(
+                    "لا توجد مستحقات على هذا الكشك",
+                    ErrorCode.RESOURCE_NOT_FOUND
+                );
+            }
+
+            const balance = new Prisma.Decimal(wallet?.balance || 0);
+            const available = balance.minus(reserve);
+            const settleAmount =
+                amount !== undefined
+                    ? new Prisma.Decimal(amount)
+                    : Prisma.Decimal.min(outstanding, available);
+
+            if (settleAmount.lte(0) || settleAmount.gt(available)) {
+                throw new BusinessLogicError(
+                    "رصيد المحفظة غير كافٍ مع الاحتفاظ بالحد الأدنى للرصيد",
+                    ErrorCode.INSUFFICIENT_BALANCE,
+                    {
+                        balance: balance.toString(),
+                        reserve: reserve.toString(),
+                        available: Prisma.Decimal.max(available, 0).toString()
+                    }
+                );
+            }
+
+            // Debit the wallet, guarding against concurrent spends
+            const debited = await tx.wallet.updateMany({
+                where: {
+                    user_id: ownerId,
+                    balance: { gte: settleAmount.plus(reserve) }
+                },
+                data: { balance: { decrement: settleAmount } }
+            });
+            if (debited.count === 0) {
+                throw new BusinessLogicError(
+                    "رصيد المحفظة غير كافٍ مع الاحتفاظ بالحد الأدنى للرصيد",
+                    ErrorCode.INSUFFICIENT_BALANCE
+                );
+            }
+
+            const settlement = await duesService.allocatePayment(tx, {
+                kiosk_id: kioskId,
+                amount: settleAmount,
+                method: "WALLET",
+                collected_by: ownerId
+            });
+
+            // Post ledger journal: the owner's wallet pays down the kiosk dues
+            await ledgerService.recordJournal(
+                tx,
+                {
+                    type: "DUE_SETTLEMENT",
+                    due_payment_id: settlement.payment.id
+                },
+                [
+                    ledgerService.walletLine(
+                        "OWNER",
+                        ownerId,
+                        "DEBIT",
+                        settleAmount
+                    ),
+                    {
+                        account: "DUES_CLEARING",
+                        direction: "CREDIT",
+                        amount: settleAmount,
+                        kiosk_id: kioskId
+                    }
+                ],
+                "Dues settled from owner wallet"
+            );
+
+            return {
+                ...settlement,
+                balance_after: balance.minus(settleAmount)
+            };
+        });
+
+        logger.info(
+            `Owner ${ownerId} settled ${result.payment.amount} of dues for kiosk ${kioskId} from wallet`
+        );
+
+        await notificationService.notifyOwnerDuePaid(
+            ownerId,
+            kiosk.name,
+            result.payment.amount.toString(),
+            result.outstanding_after.gt(0)
+        );
+
+        const receipt = await duesService.getReceipt(result.payment.id);
+
+        return {
+            receipt,
+            outstanding: result.outstanding_after.toString(),
+            wallet_balance: result.balance_after.toString()
+        };
+    } catch (err) {
+        logger.error(`Error settling dues from wallet: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Get a kiosk's invoices, newest period first.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {string} ownerId - The ID of the owner.
+ * @param {number} page - The page number.
+ * @param {number} limit - The page size.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object>} The invoices and their total count.
+ */
+export async function getKioskInvoices(
+    kioskId: string,
+    ownerId: string,
+    page: number,
+    limit: number,
+    req: Request,
+    res: Response
+) {
+    try {
+        const kiosk = await prisma.kiosk.findUnique({
+            where: { id: kioskId }
+        });
+
+        if (!kiosk) {
+            errorHandler(
+                new NotFoundError("لم يتم العثور على الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (kiosk.owner_id !== ownerId) {
+            errorHandler(
+                new AuthorizationError("أنت لست مالك هذا الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const [invoices, total] = await Promise.all([
+            prisma.invoice.findMany({
+                where: { kiosk_id: kioskId },
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { period_start: "desc" }
+            }),
+            prisma.invoice.count({ where: { kiosk_id: kioskId } })
+        ]);
+
+        return { invoices, total };
+    } catch (err) {
+        logger.error(`Error getting kiosk invoices: ${err}`);
+        errorHandler(
+            new AppError(
+                "حدث خطأ أثناء الحصول على فواتير الكشك",
+                500,
+                ErrorCode.INTERNAL_ERROR
+            ),
+            req,
+            res
+        );
+        return null;
+    }
+}
+
+/**
+ * Get one of a kiosk's invoices with its lines and payments.
+ *
+ * @param {string} kioskId - The ID of the kiosk.
+ * @param {string} invoiceId - The ID of the invoice.
+ * @param {string} ownerId - The ID of the owner.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object>} The invoice.
+ */
+export async function getKioskInvoice(
+    kioskId: string,
+    invoiceId: string,
+    ownerId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const invoice = await duesService.getInvoice(invoiceId);
+
+        if (!invoice || invoice.kiosk_id !== kioskId) {
+            errorHandler(
+                new NotFoundError("لم يتم العثور على الفاتورة"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (invoice.kiosk.owner_id !== ownerId) {
+            errorHandler(
+                new AuthorizationError("أنت لست مالك هذا الكشك"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        return invoice;
+    } catch (err) {
+        logger.error(`Error getting kiosk invoice: ${err}`);
+        errorHandler(
+            new AppError(
+                "حدث خطأ أثناء الحصول على الفاتورة",
+                500,
+                ErrorCode.INTERNAL_ERROR
+            ),
+            req,
+            res
+        );
+        return null;
+    }
+}
+
 /**
  * Get user's kiosks.
  *
@@ -683,16 +1102,41 @@ export async function removeWorker(
                     }
                 });
 
-                await tx.redemptionRequest.create({
+                const redemption = await tx.redemptionRequest.create({
                     data: {
                         amount: Number(balance!.balance),
                         user_id: kioskCount!.id,
                         status: "PENDING",
                         type: "DELETION_REDEMPTION",
                         method: "DELETION",
-                        details: "Worker removed from kiosk - Balance payout"
+                        details: "Worker removed from kiosk - Balance payout",
+                        status_history: {
+                            create: {
+                                to_status: "PENDING",
+                                note: "Worker removed from kiosk"
+                            }
+                        }
                     }
                 });
+
+                await ledgerService.recordJournal(
+                    tx,
+                    { type: "REDEMPTION", redemption_id: redemption.id },
+                    [
+                        ledgerService.walletLine(
+                            "WORKER",
+                            kioskCount.id,
+                            "DEBIT",
+                            balance!.balance
+                        ),
+                        {
+                            account: "REDEMPTION_PAYABLE",
+                            direction: "CREDIT",
+                            amount: balance!.balance
+                        }
+                    ],
+                    "Worker removal auto redemption"
+                );
             });
         }
 
@@ -765,10 +1209,11 @@ export async function getKioskDetails(
                 created_at: {
                     gte: new Date(new Date().setDate(new Date().getDate() - 30))
                 },
-                is_paid: false
+                is_paid: false,
+                is_cancelled: false
             },
             orderBy: { created_at: "desc" },
-            select: { amount: true }
+            select: { amount: true, paid_amount: true }
         });
 
         const netEarnings = await prisma.transaction.findMany({
@@ -794,7 +1239,10 @@ export async function getKioskDetails(
         // const totalGross = netEarnings
         //     .reduce((sum, d) => sum + Number(d.amount_gross), 0)
         //     .toFixed(0);
-        const totalDue = dues.reduce((sum, d) => sum + Number(d.amount), 0);
+        const totalDue = dues.reduce(
+            (sum, d) => sum + Number(duesService.remainingOf(d)),
+            0
+        );
         const totalNetEarnings = netEarnings
             .reduce((sum, d) => sum + Number(d.commission), 0)
             .toFixed(0);
@@ -865,17 +1313,9 @@ export async function getKioskReports(
             return null;
         }
 
-        const totalDues = await prisma.kioskDue.aggregate({
-            where: {
-                kiosk_id: kioskId,
-                is_paid: false
-            },
-            _sum: {
-                amount: true
-            }
-        });
-
-        const totalDuesAmount = Number(totalDues._sum.amount || 0);
+        const totalDuesAmount = Number(
+            await duesService.getOutstanding(prisma, kioskId)
+        );
 
         // 2. Define Time Range (Current Month)
         const startOfMonth = new Date(year, month - 1, 1);
@@ -1160,7 +1600,8 @@ export async function deleteKiosk(
         const unpaidDues = await prisma.kioskDue.findFirst({
             where: {
                 kiosk_id: kioskId,
-                is_paid: false
+                is_paid: false,
+                is_cancelled: false
             }
         });
 
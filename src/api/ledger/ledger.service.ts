@@ -0,0 +1,661 @@
+import { randomUUID } from "node:crypto";
+import {
+    LedgerAccount,
+    LedgerDirection,
+    LedgerReferenceType,
+    Prisma,
+    Role
+} from "@prisma/client";
+import prisma from "../../prisma.js";
+import logger from "../../utils/logger.js";
+
+/**
+ * A single debit or credit line of a journal.
+ */
+export interface LedgerLine {
+    account: LedgerAccount;
+    direction: LedgerDirection;
+    amount: number | Prisma.Decimal;
+    user_id?: string;
+    shadow_phone?: string;
+    kiosk_id?: string;
+}
+
+/**
+ * The business record a journal belongs to.
+ */
+export interface LedgerReference {
+    type: LedgerReferenceType;
+    transaction_id?: string;
+    redemption_id?: string;
+    goal_id?: string;
+    audit_log_id?: string;
+    due_payment_id?: string;
+}
+
+/**
+ * Map a user role to the wallet account its balance is held in.
+ *
+ * @param {Role | string} role - The role of the wallet owner.
+ * @returns {LedgerAccount} The ledger account for the wallet.
+ */
+export function walletAccountFor(role: Role | string): LedgerAccount {
+    if (role === "WORKER") return "WORKER_WALLET";
+    if (role === "OWNER") return "OWNER_WALLET";
+    return "CUSTOMER_WALLET";
+}
+
+/**
+ * Build a line against a user's wallet.
+ *
+ * @param {Role | string} role - The role of the wallet owner.
+ * @param {string} userId - The ID of the wallet owner.
+ * @param {LedgerDirection} direction - CREDIT increases the balance, DEBIT decreases it.
+ * @param {number | Prisma.Decimal} amount - The amount of the line.
+ * @returns {LedgerLine} The ledger line.
+ */
+export function walletLine(
+    role: Role | string,
+    userId: string,
+    direction: LedgerDirection,
+    amount: number | Prisma.Decimal
+): LedgerLine {
+    return {
+        account: walletAccountFor(role),
+        direction,
+        amount,
+        user_id: userId
+    };
+}
+
+/**
+ * Build a line against a shadow wallet.
+ *
+ * @param {string} phone - The phone number of the shadow wallet.
+ * @param {LedgerDirection} direction - CREDIT increases the balance, DEBIT decreases it.
+ * @param {number | Prisma.Decimal} amount - The amount of the line.
+ * @returns {LedgerLine} The ledger line.
+ */
+export function shadowLine(
+    phone: string,
+    direction: LedgerDirection,
+    amount: number | Prisma.Decimal
+): LedgerLine {
+    return { account: "SHADOW_WALLET", direction, amount, shadow_phone: phone };
+}
+
+/**
+ * Record a balanced journal inside an open Prisma transaction.
+ * Must be called with the same transaction client that mutates the balances,
+ * so the ledger and the wallets commit or roll back together.
+ *
+ * @param {Prisma.TransactionClient} tx - The Prisma transaction client.
+ * @param {LedgerReference} reference - The record the movement belongs to.
+ * @param {LedgerLine[]} lines - The debit and credit lines.
+ * @param {string} [description] - Optional human readable description.
+ * @returns {Promise<string>} The journal ID.
+ * @throws {Error} If debits and credits do not balance.
+ */
+export async function recordJournal(
+    tx: Prisma.TransactionClient,
+    reference: LedgerReference,
+    lines: LedgerLine[],
+    description?: string
+): Promise<string> {
+    const postable = lines.filter((l) => Number(l.amount) !== 0);
+
+    const debits = postable
+        .filter((l) => l.direction === "DEBIT")
+        .reduce((sum, l) => sum.plus(l.amount), new Prisma.Decimal(0));
+    const credits = postable
+        .filter((l) => l.direction === "CREDIT")
+        .reduce((sum, l) => sum.plus(l.amount), new Prisma.Decimal(0));
+
+    if (!debits.equals(credits)) {
+        throw new Error(
+            `Unbalanced ledger journal (${reference.type}): debits ${debits} != credits ${credits}`
+        );
+    }
+
+    const journalId = randomUUID();
+
+    if (postable.length === 0) return journalId;
+
+    await tx.ledgerEntry.createMany({
+        data: postable.map((l) => ({
+            journal_id: journalId,
+            account: l.account,
+            direction: l.direction,
+            amount: l.amount,
+            user_id: l.user_id,
+            shadow_phone: l.shadow_phone,
+            kiosk_id: l.kiosk_id,
+            reference_type: reference.type,
+            transaction_id: reference.transaction_id,
+            redemption_id: reference.redemption_id,
+            goal_id: reference.goal_id,
+            audit_log_id: reference.audit_log_id,
+            due_payment_id: reference.due_payment_id,
+            description
+        }))
+    });
+
+    logger.info(
+        `[Ledger] Journal ${journalId} recorded (${reference.type}): ${debits}`
+    );
+
+    return journalId;
+}
+
+/**
+ * Accounts that mirror a user's Wallet balance.
+ */
+const WALLET_ACCOUNTS: LedgerAccount[] = [
+    "CUSTOMER_WALLET",
+    "WORKER_WALLET",
+    "OWNER_WALLET"
+];
+
+type Breakdown = Record<string, Prisma.Decimal>;
+
+/**
+ * Fold grouped ledger sums into a net balance and a per-reference breakdown.
+ */
+function accumulate(
+    target: Map<string, Breakdown>,
+    key: string,
+    referenceType: LedgerReferenceType,
+    direction: LedgerDirection,
+    amount: Prisma.Decimal | null
+) {
+    const signed =
+        direction === "CREDIT"
+            ? new Prisma.Decimal(amount || 0)
+            : new Prisma.Decimal(amount || 0).negated();
+    const breakdown = target.get(key) || {};
+    breakdown[referenceType] = (
+        breakdown[referenceType] || new Prisma.Decimal(0)
+    ).plus(signed);
+    target.set(key, breakdown);
+}
+
+/**
+ * Sum a breakdown into a single balance.
+ */
+function total(breakdown?: Breakdown): Prisma.Decimal {
+    if (!breakdown) return new Prisma.Decimal(0);
+    return Object.values(breakdown).reduce(
+        (sum, v) => sum.plus(v),
+        new Prisma.Decimal(0)
+    );
+}
+
+/**
+ * Serialize a breakdown for storage on an issue.
+ */
+function serialize(breakdown?: Breakdown): string | undefined {
+    if (!breakdown) return undefined;
+    return JSON.stringify(
+        Object.fromEntries(
+            Object.entries(breakdown).map(([k, v]) => [k, v.toString()])
+        )
+    );
+}
+
+/**
+ * Ledger movements that have no business record of their own. Everything
+ * else (deposits, transfers, reversals, redemptions and commission releases,
+ * which flip commission_status) is recomputed from the records themselves.
+ */
+const LEDGER_ONLY_REFERENCES: LedgerReferenceType[] = [
+    "ADMIN_ADJUSTMENT",
+    "SHADOW_CLAIM",
+    "EXPIRY",
+    "DUE_SETTLEMENT"
+];
+
+interface RecordBalances {
+    wallets: Map<string, Prisma.Decimal>;
+    shadows: Map<string, Prisma.Decimal>;
+}
+
+/**
+ * Add an amount to a keyed balance.
+ */
+function addTo(
+    target: Map<string, Prisma.Decimal>,
+    key: string,
+    amount: Prisma.Decimal | number | null
+) {
+    target.set(
+        key,
+        (target.get(key) || new Prisma.Decimal(0)).plus(amount || 0)
+    );
+}
+
+/**
+ * Net effect of completed transactions and of redemptions on every wallet
+ * and shadow wallet, worked out from the records rather than the ledger.
+ * A reversed deposit nets to zero, except when its shadow wallet was claimed
+ * before the reversal: the shadow wallet kept the deposit and the claiming
+ * user's wallet paid the reversal.
+ *
+ * @param {Prisma.TransactionWhereInput} [txWhere] - Extra filter on transactions.
+ * @param {Prisma.RedemptionRequestWhereInput} [redemptionWhere] - Extra filter on redemptions.
+ * @returns {Promise<RecordBalances>} Balances by user ID and by shadow phone.
+ */
+async function balancesFromRecords(
+    txWhere: Prisma.TransactionWhereInput = {},
+    redemptionWhere: Prisma.RedemptionRequestWhereInput = {}
+): Promise<RecordBalances> {
+    const completed = { ...txWhere, status: "COMPLETED" as const };
+
+    const [received, shadowReceived, paidCommissions, heldCommissions, sent] =
+        await Promise.all([
+            prisma.transaction.groupBy({
+                by: ["receiver_id"],
+                where: { ...completed, receiver_id: { not: null } },
+                _sum: { amount_net: true }
+            }),
+            prisma.transaction.groupBy({
+                by: ["receiver_phone"],
+                where: { ...completed, receiver_id: null },
+                _sum: { amount_net: true }
+            }),
+            prisma.transaction.groupBy({
+                by: ["sender_id"],
+                where: {
+                    ...completed,
+                    type: "DEPOSIT",
+                    commission_status: "PAID"
+                },
+                _sum: { commission: true }
+            }),
+            // Held and forfeited commission sits with the kiosk owner
+            prisma.transaction.groupBy({
+                by: ["kiosk_id"],
+                where: {
+                    ...completed,
+                    type: "DEPOSIT",
+                    commission_status: { not: "PAID" }
+                },
+                _sum: { commission: true }
+            }),
+            prisma.transaction.groupBy({
+                by: ["sender_id"],
+                where: { ...completed, type: "TRANSFER" },
+                _sum: { amount_gross: true }
+            })
+        ]);
+
+    const claimedReversals = await prisma.transactionReversal.findMany({
+        where: {
+            clawed_from_id: { not: null },
+            transaction: { ...txWhere, receiver_id: null }
+        },
+        select: {
+            amount_clawed: true,
+            clawed_from_id: true,
+            transaction: { select: { receiver_phone: true } }
+        }
+    });
+
+    const redemptions = await prisma.redemptionRequest.groupBy({
+        by: ["user_id", "status"],
+        where: redemptionWhere,
+        _sum: { amount: true, fee: true }
+    });
+
+    const kiosks = await prisma.kiosk.findMany({
+        where: {
+            id: {
+                in: heldCommissions.map((row) => row.kiosk_id).filter(Boolean)
+            }
+        },
+        select: { id: true, owner_id: true }
+    });
+    const ownerOf = new Map(kiosks.map((k) => [k.id, k.owner_id]));
+
+    const wallets = new Map<string, Prisma.Decimal>();
+    const shadows = new Map<string, Prisma.Decimal>();
+
+    for (const row of received) {
+        addTo(wallets, row.receiver_id, row._sum.amount_net);
+    }
+    for (const row of shadowReceived) {
+        addTo(shadows, row.receiver_phone, row._sum.amount_net);
+    }
+    for (const row of paidCommissions) {
+        addTo(wallets, row.sender_id, row._sum.commission);
+    }
+    for (const row of heldCommissions) {
+        const ownerId = ownerOf.get(row.kiosk_id);
+        if (ownerId) addTo(wallets, ownerId, row._sum.commission);
+    }
+    for (const reversal of claimedReversals) {
+        addTo(
+            shadows,
+            reversal.transaction.receiver_phone,
+            reversal.amount_clawed
+        );
+        addTo(
+            wallets,
+            reversal.clawed_from_id,
+            reversal.amount_clawed.negated()
+        );
+    }
+    for (const row of sent) {
+        addTo(
+            wallets,
+            row.sender_id,
+            new Prisma.Decimal(row._sum.amount_gross || 0).negated()
+        );
+    }
+    for (const row of redemptions) {
+        // Amount and fee leave on request; only the amount comes back on a refund
+        const amount = new Prisma.Decimal(row._sum.amount || 0);
+        const fee = new Prisma.Decimal(row._sum.fee || 0);
+        const refunded = row.status === "REJECTED" || row.status === "FAILED";
+        addTo(
+            wallets,
+            row.user_id,
+            refunded ? fee.negated() : amount.plus(fee).negated()
+        );
+    }
+
+    return { wallets, shadows };
+}
+
+/**
+ * Post opening balance journals for balances built up before the ledger
+ * existed: the net of every transaction and redemption without ledger
+ * entries. Idempotent; a wallet that already has an opening balance is
+ * skipped.
+ *
+ * @returns {Promise<number>} The number of journals posted.
+ */
+export async function backfillOpeningBalances(): Promise<number> {
+    const legacy = await balancesFromRecords(
+        { ledger_entries: { none: {} } },
+        { ledger_entries: { none: {} } }
+    );
+
+    const [opened, users] = await Promise.all([
+        prisma.ledgerEntry.findMany({
+            where: {
+                reference_type: "OPENING_BALANCE",
+                account: { not: "OPENING_BALANCE" }
+            },
+            select: { user_id: true, shadow_phone: true }
+        }),
+        prisma.user.findMany({
+            where: { id: { in: [...legacy.wallets.keys()] } },
+            select: { id: true, role: true }
+        })
+    ]);
+    const openedUsers = new Set(opened.map((e) => e.user_id));
+    const openedPhones = new Set(opened.map((e) => e.shadow_phone));
+    const roleOf = new Map(users.map((u) => [u.id, u.role]));
+
+    const pending: LedgerLine[] = [];
+    for (const [userId, balance] of legacy.wallets) {
+        if (balance.isZero() || openedUsers.has(userId)) continue;
+        if (!roleOf.has(userId)) continue;
+        pending.push(
+            walletLine(
+                roleOf.get(userId),
+                userId,
+                balance.isNegative() ? "DEBIT" : "CREDIT",
+                balance.abs()
+            )
+        );
+    }
+    for (const [phone, balance] of legacy.shadows) {
+        if (balance.isZero() || openedPhones.has(phone)) continue;
+        pending.push(
+            shadowLine(
+                phone,
+                balance.isNegative() ? "DEBIT" : "CREDIT",
+                balance.abs()
+            )
+        );
+    }
+
+    for (const line of pending) {
+        await prisma.$transaction((tx) =>
+            recordJournal(
+                tx,
+                { type: "OPENING_BALANCE" },
+                [
+                    line,
+                    {
+                        account: "OPENING_BALANCE",
+                        direction:
+                            line.direction === "CREDIT" ? "DEBIT" : "CREDIT",
+                        amount: line.amount
+                    }
+                ],
+                "Opening balance from pre-ledger records"
+            )
+        );
+    }
+
+    if (pending.length > 0) {
+        logger.info(
+            `[Ledger] Posted ${pending.length} opening balance journals`
+        );
+    }
+
+    return pending.length;
+}
+
+/**
+ * Reconcile every Wallet and ShadowWallet.
+ * First backfills opening balances for pre-ledger wallets. Each stored
+ * balance is then checked twice: against its journals, and against a
+ * balance recomputed from transactions and redemptions plus the ledger-only
+ * movements (admin adjustments, shadow claims, expiry and due settlements).
+ * The run records one issue per wallet that fails either check.
+ *
+ * @param {string} [triggeredBy] - Optional ID of the admin who started the run.
+ * @returns {Promise<object>} The finished reconciliation run.
+ */
+export async function reconcileWallets(triggeredBy?: string) {
+    const run = await prisma.reconciliationRun.create({
+        data: { triggered_by: triggeredBy }
+    });
+
+    logger.info(`[Reconciliation] Run ${run.id} started`);
+
+    try {
+        const openingBalances = await backfillOpeningBalances();
+
+        const [wallets, shadowWallets, walletSums, shadowSums, records] =
+            await Promise.all([
+                prisma.wallet.findMany({
+                    select: { user_id: true, balance: true }
+                }),
+                prisma.shadowWallet.findMany({
+                    select: { phone: true, balance: true }
+                }),
+                prisma.ledgerEntry.groupBy({
+                    by: ["user_id", "reference_type", "direction"],
+                    where: {
+                        account: { in: WALLET_ACCOUNTS },
+                        user_id: { not: null }
+                    },
+                    _sum: { amount: true }
+                }),
+                prisma.ledgerEntry.groupBy({
+                    by: ["shadow_phone", "reference_type", "direction"],
+                    where: {
+                        account: "SHADOW_WALLET",
+                        shadow_phone: { not: null }
+                    },
+                    _sum: { amount: true }
+                }),
+                balancesFromRecords()
+            ]);
+
+        const computedWallets = new Map<string, Breakdown>();
+        for (const row of walletSums) {
+            accumulate(
+                computedWallets,
+                row.user_id,
+                row.reference_type,
+                row.direction,
+                row._sum.amount
+            );
+        }
+
+        const computedShadows = new Map<string, Breakdown>();
+        for (const row of shadowSums) {
+            accumulate(
+                computedShadows,
+                row.shadow_phone,
+                row.reference_type,
+                row.direction,
+                row._sum.amount
+            );
+        }
+
+        /**
+         * Balance from records plus the ledger-only part of a breakdown.
+         */
+        const activity = (
+            recorded: Prisma.Decimal | undefined,
+            breakdown?: Breakdown
+        ) =>
+            LEDGER_ONLY_REFERENCES.reduce(
+                (sum, type) => sum.plus(breakdown?.[type] || 0),
+                recorded || new Prisma.Decimal(0)
+            );
+
+        const issues: Prisma.ReconciliationIssueCreateManyInput[] = [];
+        let totalWalletBalance = new Prisma.Decimal(0);
+        let totalShadowBalance = new Prisma.Decimal(0);
+        let computedCirculation = new Prisma.Decimal(0);
+
+        // Wallets
+        for (const wallet of wallets) {
+            const breakdown = computedWallets.get(wallet.user_id);
+            const computed = total(breakdown);
+            const fromActivity = activity(
+                records.wallets.get(wallet.user_id),
+                breakdown
+            );
+            totalWalletBalance = totalWalletBalance.plus(wallet.balance);
+            computedCirculation = computedCirculation.plus(computed);
+
+            if (
+                !computed.equals(wallet.balance) ||
+                !fromActivity.equals(wallet.balance)
+            ) {
+                issues.push({
+                    run_id: run.id,
+                    wallet_type: "WALLET",
+                    user_id: wallet.user_id,
+                    stored_balance: wallet.balance,
+                    computed_balance: computed,
+                    activity_balance: fromActivity,
+                    difference: wallet.balance.minus(computed),
+                    breakdown: serialize(breakdown)
+                });
+            }
+            computedWallets.delete(wallet.user_id);
+        }
+
+        // Ledger balances for users that no longer have a wallet
+        for (const [userId, breakdown] of computedWallets) {
+            const computed = total(breakdown);
+            const fromActivity = activity(
+                records.wallets.get(userId),
+                breakdown
+            );
+            computedCirculation = computedCirculation.plus(computed);
+            if (!computed.isZero() || !fromActivity.isZero()) {
+                issues.push({
+                    run_id: run.id,
+                    wallet_type: "WALLET",
+                    user_id: userId,
+                    stored_balance: 0,
+                    computed_balance: computed,
+                    activity_balance: fromActivity,
+                    difference: computed.negated(),
+                    breakdown: serialize(breakdown)
+                });
+            }
+        }
+
+        // Shadow wallets (claimed ones are deleted and must net to zero)
+        const storedShadows = new Map(
+            shadowWallets.map((s) => [s.phone, s.balance])
+        );
+        const phones = new Set([
+            ...storedShadows.keys(),
+            ...computedShadows.keys(),
+            ...records.shadows.keys()
+        ]);
+
+        for (const phone of phones) {
+            const stored = storedShadows.get(phone) || new Prisma.Decimal(0);
+            const breakdown = computedShadows.get(phone);
+            const computed = total(breakdown);
+            const fromActivity = activity(
+                records.shadows.get(phone),
+                breakdown
+            );
+            totalShadowBalance = totalShadowBalance.plus(stored);
+            computedCirculation = computedCirculation.plus(computed);
+
+            if (!computed.equals(stored) || !fromActivity.equals(stored)) {
+                issues.push({
+                    run_id: run.id,
+                    wallet_type: "SHADOW_WALLET",
+                    shadow_phone: phone,
+                    stored_balance: stored,
+                    computed_balance: computed,
+                    activity_balance: fromActivity,
+                    difference: stored.minus(computed),
+                    breakdown: serialize(breakdown)
+                });
+            }
+        }
+
+        if (issues.length > 0) {
+            await prisma.reconciliationIssue.createMany({ data: issues });
+        }
+
+        const finished = await prisma.reconciliationRun.update({
+            where: { id: run.id },
+            data: {
+                status: "COMPLETED",
+                wallets_checked: wallets.length,
+                shadow_wallets_checked: shadowWallets.length,
+                issues_count: issues.length,
+                total_wallet_balance: totalWalletBalance,
+                total_shadow_balance: totalShadowBalance,
+                total_circulation: totalWalletBalance.plus(totalShadowBalance),
+                computed_circulation: computedCirculation,
+                opening_balances: openingBalances,
+                finished_at: new Date()
+            }
+        });
+
+        logger.info(
+            `[Reconciliation] Run ${run.id} completed: ${issues.length} issues across ${wallets.length} wallets and ${shadowWallets.length} shadow wallets`
+        );
+
+        return finished;
+    } catch (err) {
+        logger.error(`[Reconciliation] Run ${run.id} failed: ${err}`);
+        return await prisma.reconciliationRun.update({
+            where: { id: run.id },
+            data: {
+                status: "FAILED",
+                error: String(err),
+                finished_at: new Date()
+            }
+        });
+    }
+}
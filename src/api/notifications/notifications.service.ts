@@ -300,6 +300,23 @@ export async function notifyOwnerDuePaid(
     );
 }
 
+/**
+ * Notify owner: Invoice issued for a billing period.
+ */
+export async function notifyOwnerInvoiceIssued(
+    ownerId: string,
+    kioskName: string,
+    invoiceNumber: string,
+    amountDue: string
+) {
+    return createNotification(
+        ownerId,
+        "فاتورة جديدة",
+        `تم إصدار الفاتورة ${invoiceNumber} ل "${kioskName}" بمبلغ مستحق ${amountDue} نقطة.`,
+        "INVOICE_ISSUED"
+    );
+}
+
 /**
  * Notify owner: Worker left kiosk.
  */
@@ -463,6 +480,82 @@ export async function notifyWorkerTransaction(
     );
 }
 
+/**
+ * Notify worker/owner: Transaction was reversed.
+ */
+export async function notifyTransactionReversed(
+    userId: string,
+    amount: string,
+    receiverPhone: string
+) {
+    return createNotification(
+        userId,
+        "تم إلغاء المعاملة",
+        `تم إلغاء المعاملة ${amount} نقطة إلى ${receiverPhone} واسترداد النقاط.`,
+        "TRANSACTION_REVERSED"
+    );
+}
+
+/**
+ * Notify customer: Transfer sent.
+ */
+export async function notifyTransferSent(
+    senderId: string,
+    amount: string,
+    receiverPhone: string
+) {
+    return createNotification(
+        senderId,
+        "تم تحويل النقاط",
+        `تم تحويل ${amount} نقطة إلى ${receiverPhone}.`,
+        "TRANSFER_SENT"
+    );
+}
+
+/**
+ * Notify customer: Transfer received.
+ */
+export async function notifyTransferReceived(
+    receiverId: string,
+    amount: string,
+    senderName: string
+) {
+    return createNotification(
+        receiverId,
+        "استلام نقاط",
+        `استلمت ${amount} نقطة من ${senderName}.`,
+        "TRANSFER_RECEIVED"
+    );
+}
+
+/**
+ * Notify customer: Points expiring soon.
+ */
+export async function notifyPointsExpiringSoon(
+    userId: string,
+    amount: string,
+    days: number
+) {
+    return createNotification(
+        userId,
+        "نقاط على وشك الانتهاء",
+        `ستنتهي صلاحية ${amount} نقطة خلال ${days} يوم. استخدمها قبل انتهائها.`,
+        "POINTS_EXPIRING_SOON"
+    );
+}
+
+/**
+ * Notify customer: Points expired.
+ */
+export async function notifyPointsExpired(userId: string, amount: string) {
+    return createNotification(
+        userId,
+        "انتهت صلاحية النقاط",
+        `انتهت صلاحية ${amount} نقطة من رصيدك.`,
+        "POINTS_EXPIRED"
+    );
+}
+
 // ============================================================================
 // LEGACY FUNCTIONS (for backward compatibility)
 // ============================================================================
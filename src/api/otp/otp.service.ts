@@ -0,0 +1,292 @@
+import { createHmac, randomInt, timingSafeEqual } from "node:crypto";
+import { OtpPurpose } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { config } from "../../config/env.config.js";
+import {
+    AppError,
+    AuthenticationError,
+    NotFoundError,
+    ErrorCode,
+    HttpStatus
+} from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import * as smsService from "../sms/sms.service.js";
+
+/**
+ * Read the OTP policy from system settings.
+ *
+ * @returns {Promise<object>} Code length, TTL, attempt limit, lockout and resend cooldown.
+ */
+export async function getOtpPolicy() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "otp_length",
+                    "otp_ttl_minutes",
+                    "otp_max_attempts",
+                    "otp_lockout_minutes",
+                    "otp_resend_cooldown_seconds"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    const length = Number(settingsMap["otp_length"] ?? 4);
+
+    return {
+        length: Math.min(Math.max(Number.isInteger(length) ? length : 4, 4), 8),
+        ttlMinutes: Number(settingsMap["otp_ttl_minutes"] ?? 10),
+        maxAttempts: Number(settingsMap["otp_max_attempts"] ?? 5),
+        lockoutMinutes: Number(settingsMap["otp_lockout_minutes"] ?? 15),
+        resendCooldownSeconds: Number(
+            settingsMap["otp_resend_cooldown_seconds"] ?? 60
+        )
+    };
+}
+
+/**
+ * Hash a code. The phone and purpose are part of the keyed hash, so a code
+ * hash is useless for any other phone or purpose.
+ *
+ * @param {string} phone - The phone number.
+ * @param {OtpPurpose} purpose - What the code is for.
+ * @param {string} code - The code.
+ * @returns {Promise<string>} The HMAC-SHA256 hex digest.
+ */
+async function hashCode(
+    phone: string,
+    purpose: OtpPurpose,
+    code: string
+): Promise<string> {
+    return createHmac("sha256", (await config).JWT_SECRET)
+        .update(`${phone}:${purpose}:${code}`)
+        .digest("hex");
+}
+
+/**
+ * Generate a numeric code with a cryptographically secure generator.
+ *
+ * @param {number} length - Number of digits.
+ * @returns {string} The code, zero-padded.
+ */
+function generateCode(length: number): string {
+    return randomInt(0, 10 ** length)
+        .toString()
+        .padStart(length, "0");
+}
+
+/**
+ * Seconds left until a date, rounded up.
+ *
+ * @param {Date} until - The date.
+ * @returns {number} The seconds left.
+ */
+function secondsUntil(until: Date): number {
+    return Math.max(Math.ceil((until.getTime() - Date.now()) / 1000), 1);
+}
+
+/**
+ * Issue a code for a phone and purpose and send it by SMS. Replaces any
+ * pending code for the same purpose.
+ *
+ * @param {string} phone - The phone number.
+ * @param {OtpPurpose} purpose - What the code is for.
+ * @returns {Promise<Date>} When the code expires.
+ * @throws {AppError} If the phone is locked out or the resend cooldown has not passed.
+ */
+export async function issueOtp(
+    phone: string,
+    purpose: OtpPurpose
+): Promise<Date> {
+    const policy = await getOtpPolicy();
+    const now = new Date();
+
+    const existing = await prisma.otp.findUnique({
+        where: { phone_purpose: { phone, purpose } }
+    });
+
+    if (existing?.locked_until && existing.locked_until > now) {
+        throw new AppError(
+            "تم إيقاف رمز التحقق مؤقتاً بسبب كثرة المحاولات الخاطئة",
+            HttpStatus.TOO_MANY_REQUESTS,
+            ErrorCode.OTP_LOCKED,
+            { retry_after_seconds: secondsUntil(existing.locked_until) }
+        );
+    }
+
+    if (existing && !existing.locked_until) {
+        const cooldownEnds = new Date(
+            existing.last_sent_at.getTime() +
+                policy.resendCooldownSeconds * 1000
+        );
+        if (cooldownEnds > now) {
+            throw new AppError(
+                "يرجى الانتظار قبل طلب رمز تحقق جديد",
+                HttpStatus.TOO_MANY_REQUESTS,
+                ErrorCode.OTP_RESEND_COOLDOWN,
+                { retry_after_seconds: secondsUntil(cooldownEnds) }
+            );
+        }
+    }
+
+    const code = generateCode(policy.length);
+    const codeHash = await hashCode(phone, purpose, code);
+    const expiresAt = new Date(now.getTime() + policy.ttlMinutes * 60 * 1000);
+
+    await prisma.otp.upsert({
+        where: { phone_purpose: { phone, purpose } },
+        update: {
+            code_hash: codeHash,
+            attempts: 0,
+            locked_until: null,
+            send_count: { increment: 1 },
+            last_sent_at: now,
+            expires_at: expiresAt
+        },
+        create: {
+            phone,
+            purpose,
+            code_hash: codeHash,
+            last_sent_at: now,
+            expires_at: expiresAt
+        }
+    });
+
+    await smsService.sendOtp(phone, code, purpose);
+    logger.info(`OTP (${purpose}) sent to ${phone}`);
+
+    return expiresAt;
+}
+
+/**
+ * Re-issue the most recent pending code of a phone, keeping its purpose.
+ *
+ * @param {string} phone - The phone number.
+ * @returns {Promise<OtpPurpose>} The purpose of the re-issued code.
+ * @throws {NotFoundError} If the phone has no pending code.
+ */
+export async function resendOtp(phone: string): Promise<OtpPurpose> {
+    const pending = await prisma.otp.findFirst({
+        where: { phone },
+        orderBy: { last_sent_at: "desc" }
+    });
+
+    if (!pending) {
+        throw new NotFoundError(
+            "لم يتم العثور على رمز التحقق لمرة واحدة أو انتهت صلاحيته"
+        );
+    }
+
+    await issueOtp(phone, pending.purpose);
+    return pending.purpose;
+}
+
+/**
+ * Check a code. A correct code is used up; a wrong one counts towards the
+ * attempt limit, and once the limit is reached the code is locked and a new
+ * one can only be requested after the lockout (issueOtp reports it).
+ * Every failure gives the same INVALID_OTP error, so a caller cannot tell a
+ * wrong code from a missing, expired or locked one.
+ *
+ * @param {string} phone - The phone number.
+ * @param {OtpPurpose} purpose - What the code is for.
+ * @param {string} code - The code entered by the user.
+ * @returns {Promise<void>}
+ * @throws {AuthenticationError} If the code is not valid.
+ */
+export async function verifyOtp(
+    phone: string,
+    purpose: OtpPurpose,
+    code: string
+): Promise<void> {
+    const now = new Date();
+    const policy = await getOtpPolicy();
+    const otp = await prisma.otp.findUnique({
+        where: { phone_purpose: { phone, purpose } }
+    });
+
+    if (!otp) throw invalidOtpError();
+
+    // Take the attempt before comparing, so concurrent guesses cannot all
+    // count against one stale read of the counter
+    const { count: reserved } = await prisma.otp.updateMany({
+        where: {
+            id: otp.id,
+            locked_until: null,
+            expires_at: { gt: now },
+            attempts: { lt: policy.maxAttempts }
+        },
+        data: { attempts: { increment: 1 } }
+    });
+
+    if (reserved === 0) {
+        if (!otp.locked_until && otp.expires_at < now) {
+            await prisma.otp.deleteMany({
+                where: { id: otp.id, locked_until: null }
+            });
+        }
+        throw invalidOtpError();
+    }
+
+    const expected = Buffer.from(otp.code_hash, "hex");
+    const actual = Buffer.from(await hashCode(phone, purpose, code), "hex");
+
+    if (timingSafeEqual(expected, actual)) {
+        // deleteMany so two concurrent correct entries cannot both use the
+        // code; only a lock set by concurrent wrong guesses stops it
+        const { count } = await prisma.otp.deleteMany({
+            where: { id: otp.id, locked_until: null }
+        });
+        if (count === 0) throw invalidOtpError();
+
+        logger.info(`OTP (${purpose}) verified for ${phone}`);
+        return;
+    }
+
+    // Lock the code once the attempts taken so far reach the limit
+    const { count: locked } = await prisma.otp.updateMany({
+        where: {
+            id: otp.id,
+            locked_until: null,
+            attempts: { gte: policy.maxAttempts }
+        },
+        data: {
+            locked_until: new Date(
+                now.getTime() + policy.lockoutMinutes * 60 * 1000
+            )
+        }
+    });
+
+    if (locked > 0) {
+        logger.warn(
+            `OTP (${purpose}) for ${phone} locked after ${policy.maxAttempts} attempts`
+        );
+    }
+
+    throw invalidOtpError();
+}
+
+/**
+ * The error for any code that cannot be used.
+ *
+ * @returns {AuthenticationError} The INVALID_OTP error.
+ */
+export function invalidOtpError(): AuthenticationError {
+    return new AuthenticationError(
+        "رمز التحقق لمرة واحدة غير صحيح أو منتهي الصلاحية",
+        ErrorCode.INVALID_OTP
+    );
+}
@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import * as pinService from "./pin.service.js";
+import { ResponseHandler } from "../../utils/response.js";
+import { asyncHandler } from "../../middlewares/error.middleware.js";
+
+/**
+ * Get the transaction PIN state of the current user.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const getPinStatus = asyncHandler(
+    async (req: Request, res: Response) => {
+        const status = await pinService.getPinStatus(req.user!.id, req, res);
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "PIN status retrieved", status);
+    }
+);
+
+/**
+ * Set the first transaction PIN.
+ *
+ * @param {Request} req - The Express request object containing password and pin in body.
+ * @param {Response} res - The Express response object.
+ */
+export const setPin = asyncHandler(async (req: Request, res: Response) => {
+    const { password, pin } = req.body;
+
+    const result = await pinService.setPin(
+        req.user!.id,
+        password,
+        pin,
+        req,
+        res
+    );
+    if (res.headersSent) return;
+
+    ResponseHandler.created(res, "PIN set successfully", result);
+});
+
+/**
+ * Change the transaction PIN.
+ *
+ * @param {Request} req - The Express request object containing current_pin and new_pin in body.
+ * @param {Response} res - The Express response object.
+ */
+export const changePin = asyncHandler(async (req: Request, res: Response) => {
+    const { current_pin, new_pin } = req.body;
+
+    const result = await pinService.changePin(
+        req.user!.id,
+        current_pin,
+        new_pin,
+        req,
+        res
+    );
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "PIN changed successfully", result);
+});
+
+/**
+ * Send a code to reset the transaction PIN.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const requestPinReset = asyncHandler(
+    async (req: Request, res: Response) => {
+        const result = await pinService.requestPinReset(req.user!.id, req, res);
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, result.message);
+    }
+);
+
+/**
+ * Reset the transaction PIN with a code.
+ *
+ * @param {Request} req - The Express request object containing code and new_pin in body.
+ * @param {Response} res - The Express response object.
+ */
+export const resetPin = asyncHandler(async (req: Request, res: Response) => {
+    const { code, new_pin } = req.body;
+
+    const result = await pinService.resetPin(
+        req.user!.id,
+        code,
+        new_pin,
+        req,
+        res
+    );
+    if (res.headersSent) return;
+
+    ResponseHandler.success(res, "PIN reset successfully", result);
+});
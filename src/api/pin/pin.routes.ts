@@ -0,0 +1,50 @@
+import { Router } from "express";
+import * as pinController from "./pin.controller.js";
+import { authMiddleware } from "../../middlewares/auth.middleware.js";
+import { validateRequest } from "../../middlewares/validate.middleware.js";
+import { bruteForceGuard } from "../../middlewares/ratelimit.middleware.js";
+import {
+    setPinSchema,
+    changePinSchema,
+    resetPinSchema
+} from "../../schemas/validation.schema.js";
+
+const router = Router();
+
+// All PIN routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/pin
+ * Get whether a transaction PIN is set and required.
+ *
+ * POST /api/pin
+ * Set the first transaction PIN (needs the account password).
+ *
+ * PUT /api/pin
+ * Change the transaction PIN.
+ */
+router
+    .route("/")
+    .get(pinController.getPinStatus)
+    .post(validateRequest(setPinSchema), bruteForceGuard, pinController.setPin)
+    .put(validateRequest(changePinSchema), pinController.changePin);
+
+/**
+ * POST /api/pin/reset/request
+ * Send a code to reset a forgotten or locked PIN.
+ */
+router.post("/reset/request", bruteForceGuard, pinController.requestPinReset);
+
+/**
+ * POST /api/pin/reset
+ * Reset the transaction PIN with the code.
+ */
+router.post(
+    "/reset",
+    validateRequest(resetPinSchema),
+    bruteForceGuard,
+    pinController.resetPin
+);
+
+export default router;
@@ -0,0 +1,443 @@
+import type { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import prisma from "../../prisma.js";
+import {
+    AppError,
+    AuthenticationError,
+    ConflictError,
+    ErrorCode,
+    HttpStatus,
+    NotFoundError
+} from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import { errorHandler } from "../../middlewares/error.middleware.js";
+import * as otpService from "../otp/otp.service.js";
+import * as smsService from "../sms/sms.service.js";
+import * as bruteForceService from "../auth/bruteForce.service.js";
+
+/**
+ * Read the transaction PIN policy from system settings.
+ *
+ * @returns {Promise<object>} Whether a PIN is required, the send threshold, attempts and lockout.
+ */
+export async function getPinPolicy() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "transaction_pin_required",
+                    "transaction_pin_send_threshold",
+                    "transaction_pin_max_attempts",
+                    "transaction_pin_lockout_minutes"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    return {
+        required: settingsMap["transaction_pin_required"] === true,
+        sendThreshold: Number(
+            settingsMap["transaction_pin_send_threshold"] ?? 500
+        ),
+        maxAttempts: Number(settingsMap["transaction_pin_max_attempts"] ?? 5),
+        lockoutMinutes: Number(
+            settingsMap["transaction_pin_lockout_minutes"] ?? 30
+        )
+    };
+}
+
+/**
+ * Whether a user has set a transaction PIN.
+ *
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<boolean>} True if the user has a PIN.
+ */
+export async function hasPin(userId: string): Promise<boolean> {
+    const count = await prisma.transactionPin.count({
+        where: { user_id: userId }
+    });
+    return count > 0;
+}
+
+/**
+ * Check a user's transaction PIN. Each entry takes an attempt before the PIN
+ * is compared, so concurrent guesses cannot share one read of the counter;
+ * the PIN is locked once transaction_pin_max_attempts is reached and the
+ * count starts over after the lockout. A correct PIN clears the count.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} pin - The PIN entered by the user.
+ * @returns {Promise<void>}
+ * @throws {AppError} If the user has no PIN, the PIN is locked or wrong.
+ */
+export async function verifyPin(userId: string, pin: string): Promise<void> {
+    const policy = await getPinPolicy();
+    const record = await prisma.transactionPin.findUnique({
+        where: { user_id: userId }
+    });
+    if (!record) {
+        throw new AppError(
+            "لم يتم تعيين رقم PIN للمعاملات",
+            HttpStatus.FORBIDDEN,
+            ErrorCode.PIN_NOT_SET
+        );
+    }
+
+    const now = new Date();
+
+    // A lockout that has run out starts a fresh count
+    await prisma.transactionPin.updateMany({
+        where: { id: record.id, locked_until: { lte: now } },
+        data: { failed_attempts: 0, locked_until: null }
+    });
+
+    const { count: reserved } = await prisma.transactionPin.updateMany({
+        where: {
+            id: record.id,
+            locked_until: null,
+            failed_attempts: { lt: policy.maxAttempts }
+        },
+        data: { failed_attempts: { increment: 1 } }
+    });
+    if (reserved === 0) {
+        throw pinLockedError(await lockPin(record.id, policy, now), now);
+    }
+
+    if (await bcrypt.compare(pin, record.pin_hash)) {
+        await prisma.transactionPin.update({
+            where: { id: record.id },
+            data: { failed_attempts: 0, locked_until: null }
+        });
+        return;
+    }
+
+    const lockedUntil = await lockPin(record.id, policy, now);
+    if (lockedUntil) {
+        logger.warn(
+            `Transaction PIN of ${userId} locked after ${policy.maxAttempts} attempts`
+        );
+    }
+
+    const current = await prisma.transactionPin.findUnique({
+        where: { id: record.id },
+        select: { failed_attempts: true }
+    });
+    throw new AppError(
+        "رقم PIN غير صحيح",
+        HttpStatus.FORBIDDEN,
+        ErrorCode.INVALID_PIN,
+        {
+            attempts_remaining: Math.max(
+                policy.maxAttempts - (current?.failed_attempts ?? 0),
+                0
+            )
+        }
+    );
+}
+
+/**
+ * Lock a PIN whose attempts have reached the limit.
+ *
+ * @param {string} id - The ID of the PIN record.
+ * @param {object} policy - The PIN policy.
+ * @param {Date} now - The current time.
+ * @returns {Promise<Date | null>} When the lockout ends, or null if the PIN is not locked.
+ */
+async function lockPin(
+    id: string,
+    policy: Awaited<ReturnType<typeof getPinPolicy>>,
+    now: Date
+): Promise<Date | null> {
+    await prisma.transactionPin.updateMany({
+        where: {
+            id,
+            locked_until: null,
+            failed_attempts: { gte: policy.maxAttempts }
+        },
+        data: {
+            locked_until: new Date(
+                now.getTime() + policy.lockoutMinutes * 60 * 1000
+            )
+        }
+    });
+
+    const record = await prisma.transactionPin.findUnique({
+        where: { id },
+        select: { locked_until: true }
+    });
+    return record?.locked_until && record.locked_until > now
+        ? record.locked_until
+        : null;
+}
+
+/**
+ * The error for a locked PIN.
+ *
+ * @param {Date | null} lockedUntil - When the lockout ends.
+ * @param {Date} now - The current time.
+ * @returns {AppError} The PIN_LOCKED error.
+ */
+function pinLockedError(lockedUntil: Date | null, now: Date): AppError {
+    return new AppError(
+        "تم قفل رقم PIN مؤقتاً بسبب كثرة المحاولات الخاطئة",
+        HttpStatus.TOO_MANY_REQUESTS,
+        ErrorCode.PIN_LOCKED,
+        {
+            retry_after_seconds: lockedUntil
+                ? Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000)
+                : 1
+        }
+    );
+}
+
+/**
+ * Get the PIN state of a user.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object>} Whether a PIN is set and required, the send threshold and any lockout.
+ */
+export async function getPinStatus(
+    userId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const [record, policy] = await Promise.all([
+            prisma.transactionPin.findUnique({ where: { user_id: userId } }),
+            getPinPolicy()
+        ]);
+
+        return {
+            is_set: !!record,
+            required: policy.required,
+            send_threshold: policy.sendThreshold,
+            locked_until:
+                record?.locked_until && record.locked_until > new Date()
+                    ? record.locked_until
+                    : null
+        };
+    } catch (err) {
+        logger.error(`Error getting PIN status: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Set a user's first transaction PIN. The account password is asked for so a
+ * signed-in device alone cannot set one.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} password - The account password.
+ * @param {string} pin - The new PIN.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<{ is_set: boolean } | null>} The new PIN state.
+ */
+export async function setPin(
+    userId: string,
+    password: string,
+    pin: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            errorHandler(new NotFoundError("المستخدم غير موجود"), req, res);
+            return null;
+        }
+
+        if (await hasPin(userId)) {
+            errorHandler(
+                new ConflictError("تم تعيين رقم PIN مسبقاً، يمكنك تغييره"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (
+            !user.password_hash ||
+            !(await bcrypt.compare(password, user.password_hash))
+        ) {
+            await bruteForceService.recordFailure(
+                user.phone,
+                req.ip,
+                "LOGIN",
+                "PIN_SETUP_PASSWORD"
+            );
+            errorHandler(
+                new AuthenticationError("كلمة المرور غير صحيحة"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        await prisma.transactionPin.create({
+            data: { user_id: userId, pin_hash: await bcrypt.hash(pin, 10) }
+        });
+
+        logger.info(`Transaction PIN set for ${userId}`);
+        return { is_set: true };
+    } catch (err) {
+        logger.error(`Error setting PIN: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Change a user's transaction PIN. Wrong current PINs count towards the
+ * lockout.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} currentPin - The current PIN.
+ * @param {string} newPin - The new PIN.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<{ is_set: boolean } | null>} The new PIN state.
+ */
+export async function changePin(
+    userId: string,
+    currentPin: string,
+    newPin: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        await verifyPin(userId, currentPin);
+        return await replacePin(userId, newPin);
+    } catch (err) {
+        logger.error(`Error changing PIN: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Send a PIN_RESET code to the user's phone.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<{ message: string } | null>} The message for the user.
+ */
+export async function requestPinReset(
+    userId: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            errorHandler(new NotFoundError("المستخدم غير موجود"), req, res);
+            return null;
+        }
+
+        if (!(await hasPin(userId))) {
+            errorHandler(
+                new AppError(
+                    "لم يتم تعيين رقم PIN للمعاملات",
+                    HttpStatus.FORBIDDEN,
+                    ErrorCode.PIN_NOT_SET
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        await otpService.issueOtp(user.phone, "PIN_RESET");
+        return { message: "تم إرسال رمز التحقق لمرة واحدة بنجاح" };
+    } catch (err) {
+        logger.error(`Error requesting PIN reset: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Reset a forgotten or locked transaction PIN with a PIN_RESET code.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} code - The code sent by requestPinReset.
+ * @param {string} newPin - The new PIN.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<{ is_set: boolean } | null>} The new PIN state.
+ */
+export async function resetPin(
+    userId: string,
+    code: string,
+    newPin: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            errorHandler(new NotFoundError("المستخدم غير موجود"), req, res);
+            return null;
+        }
+
+        await bruteForceService.verifyOtpCode(
+            user.phone,
+            "PIN_RESET",
+            code,
+            req.ip
+        );
+        return await replacePin(userId, newPin);
+    } catch (err) {
+        logger.error(`Error resetting PIN: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
+/**
+ * Store a new PIN, clear its lockout and tell the user by SMS.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {string} pin - The new PIN.
+ * @returns {Promise<{ is_set: boolean }>} The new PIN state.
+ * @throws {AppError} If the user has no PIN.
+ */
+async function replacePin(userId: string, pin: string) {
+    const { count } = await prisma.transactionPin.updateMany({
+        where: { user_id: userId },
+        data: {
+            pin_hash: await bcrypt.hash(pin, 10),
+            failed_attempts: 0,
+            locked_until: null
+        }
+    });
+    if (count === 0) {
+        throw new AppError(
+            "لم يتم تعيين رقم PIN للمعاملات",
+            HttpStatus.FORBIDDEN,
+            ErrorCode.PIN_NOT_SET
+        );
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    await smsService.sendTemplate(user.phone, "PIN_CHANGED", {});
+
+    logger.info(`Transaction PIN changed for ${userId}`);
+    return { is_set: true };
+}
@@ -0,0 +1,159 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import axios from "axios";
+import logger from "../../utils/logger.js";
+import dotenv from "dotenv";
+dotenv.config({ quiet: true });
+
+/** Outcome of a successful send. */
+export interface SmsSendResult {
+    /** ID the provider assigned to the message, if any */
+    message_id?: string;
+    /** What the message cost, if known */
+    cost?: number;
+}
+
+/**
+ * A way of delivering SMS. `send` resolves once the provider accepted the
+ * message and throws if it did not. Providers that write the message
+ * anywhere but the recipient's phone use `redacted`, which has verification
+ * codes masked.
+ */
+export interface SmsProvider {
+    name: string;
+    /** Whether the provider only records messages (local use) */
+    local?: boolean;
+    send(
+        to: string,
+        message: string,
+        redacted?: string
+    ): Promise<SmsSendResult>;
+}
+
+/**
+ * Format a phone number for the gateway: international form without "+",
+ * local Egyptian numbers (01xxxxxxxxx) get the "2" country prefix.
+ *
+ * @param {string} phone - The phone number.
+ * @returns {string} The gateway recipient.
+ */
+function toGatewayRecipient(phone: string): string {
+    const digits = phone.replace(/^\+/, "");
+    return digits.startsWith("0") ? "2" + digits : digits;
+}
+
+/**
+ * The HTTP SMS gateway (SMS_URL, SMS_TOKEN, SMS_SENDER_ID).
+ */
+export const httpGatewayProvider: SmsProvider = {
+    name: "http",
+    async send(to, message) {
+        if (!process.env.SMS_URL) {
+            throw new Error("SMS_URL is not configured");
+        }
+
+        const response = await axios.post(
+            process.env.SMS_URL,
+            {
+                recipient: toGatewayRecipient(to),
+                sender_id: process.env.SMS_SENDER_ID as string,
+                type: "plain",
+                message
+            },
+            {
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: "Bearer " + process.env.SMS_TOKEN
+                },
+                timeout: 10000
+            }
+        );
+
+        const body = response.data || {};
+        if (body.status && body.status !== "success") {
+            throw new Error(body.message || `Gateway status ${body.status}`);
+        }
+
+        const cost = Number(process.env.SMS_COST_PER_MESSAGE);
+        return {
+            message_id: body.data?.uid ?? body.data?.id ?? body.id,
+            cost: Number.isFinite(cost) ? cost : undefined
+        };
+    }
+};
+
+/**
+ * Writes messages to the log instead of sending them. For local use.
+ */
+export const consoleProvider: SmsProvider = {
+    name: "console",
+    local: true,
+    async send(to, message, redacted) {
+        logger.info(`[SMS] To ${to}: ${redacted ?? message}`);
+        return {};
+    }
+};
+
+/**
+ * Appends messages as JSON lines to SMS_FILE_PATH. For local use.
+ */
+export const fileProvider: SmsProvider = {
+    name: "file",
+    local: true,
+    async send(to, message, redacted) {
+        const path = process.env.SMS_FILE_PATH || "logs/sms.log";
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(
+            path,
+            JSON.stringify({
+                to,
+                message: redacted ?? message,
+                at: new Date().toISOString()
+            }) + "\n"
+        );
+        return {};
+    }
+};
+
+const PROVIDERS: Record<string, SmsProvider> = {
+    [httpGatewayProvider.name]: httpGatewayProvider,
+    [consoleProvider.name]: consoleProvider,
+    [fileProvider.name]: fileProvider
+};
+
+/**
+ * The failover chain: the providers named in SMS_PROVIDERS (the HTTP
+ * gateway by default), tried in order. The gateway is skipped while SMS_URL
+ * is unset, and the local providers only run when SMS_ALLOW_LOCAL_PROVIDERS
+ * is "true". An empty chain means no message can be sent.
+ *
+ * @returns {SmsProvider[]} The providers.
+ */
+export function getProviderChain(): SmsProvider[] {
+    const allowLocal = process.env.SMS_ALLOW_LOCAL_PROVIDERS === "true";
+    const names = (process.env.SMS_PROVIDERS || "http")
+        .split(",")
+        .map((n) => n.trim())
+        .filter(Boolean);
+
+    return names
+        .map((name) => {
+            const provider = PROVIDERS[name];
+            if (!provider) {
+                logger.warn(`[SMS] Unknown provider ${name}`);
+            } else if (provider.local && !allowLocal) {
+                logger.warn(
+                    `[SMS] Provider ${name} needs SMS_ALLOW_LOCAL_PROVIDERS=true`
+                );
+                return undefined;
+            } else if (
+                provider === httpGatewayProvider &&
+                !process.env.SMS_URL
+            ) {
+                logger.warn("[SMS] Provider http needs SMS_URL");
+                return undefined;
+            }
+            return provider;
+        })
+        .filter(Boolean);
+}
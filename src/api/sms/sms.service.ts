@@ -0,0 +1,180 @@
+import { SmsStatus } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { AppError, ErrorCode, HttpStatus } from "../../utils/response.js";
+import logger from "../../utils/logger.js";
+import { captureMessage } from "../inbox/inbox.service.js";
+import { getProviderChain } from "./sms.providers.js";
+import {
+    SmsLocale,
+    getDefaultLocale,
+    renderTemplate
+} from "./sms.templates.js";
+
+/**
+ * Maximum tries per provider before moving to the next one.
+ *
+ * @returns {number} The tries per provider.
+ */
+function getMaxAttempts(): number {
+    const attempts = parseInt(process.env.SMS_MAX_ATTEMPTS || "2", 10);
+    return Number.isInteger(attempts) && attempts > 0 ? attempts : 1;
+}
+
+/**
+ * Deliver a message through the provider chain and record it in the SMS log.
+ * Each provider is retried up to SMS_MAX_ATTEMPTS times before failing over
+ * to the next. A failed send does not fail the caller, but having no
+ * provider configured at all does.
+ *
+ * @param {string} to - The recipient's phone number.
+ * @param {string} purpose - The template purpose or message kind.
+ * @param {SmsLocale} locale - The locale of the message.
+ * @param {string} message - The message body.
+ * @param {string} [redacted] - The message body with verification codes masked.
+ * @returns {Promise<SmsStatus>} Whether the message was sent.
+ * @throws {AppError} If no SMS provider is configured.
+ */
+async function deliver(
+    to: string,
+    purpose: string,
+    locale: SmsLocale,
+    message: string,
+    redacted?: string
+): Promise<SmsStatus> {
+    await captureMessage(to, purpose, message);
+
+    const chain = getProviderChain();
+    if (chain.length === 0) {
+        logger.error(`[SMS] No SMS provider configured to send ${purpose}`);
+        await writeLog({
+            phone: to,
+            purpose,
+            locale,
+            status: "FAILED",
+            provider: null,
+            attempts: 0,
+            error: "No SMS provider configured"
+        });
+        throw new AppError(
+            "خدمة الرسائل النصية غير متاحة حالياً",
+            HttpStatus.SERVICE_UNAVAILABLE,
+            ErrorCode.EXTERNAL_SERVICE_ERROR
+        );
+    }
+
+    const maxAttempts = getMaxAttempts();
+    let attempts = 0;
+    let lastProvider: string | undefined;
+    let lastError: string | undefined;
+
+    for (const provider of chain) {
+        lastProvider = provider.name;
+
+        for (let i = 0; i < maxAttempts; i++) {
+            attempts++;
+            try {
+                const result = await provider.send(to, message, redacted);
+                await writeLog({
+                    phone: to,
+                    purpose,
+                    locale,
+                    status: "SENT",
+                    provider: provider.name,
+                    provider_message_id: result.message_id
+                        ? String(result.message_id)
+                        : null,
+                    cost: result.cost ?? null,
+                    attempts,
+                    error: lastError ?? null
+                });
+                return "SENT";
+            } catch (err) {
+                lastError = err instanceof Error ? err.message : String(err);
+                logger.warn(
+                    `[SMS] ${provider.name} failed to send ${purpose} to ${to} (try ${i + 1}/${maxAttempts}): ${lastError}`
+                );
+            }
+        }
+    }
+
+    logger.error(`[SMS] Could not send ${purpose} to ${to}: ${lastError}`);
+    await writeLog({
+        phone: to,
+        purpose,
+        locale,
+        status: "FAILED",
+        provider: lastProvider ?? null,
+        attempts,
+        error: lastError ?? "No SMS provider available"
+    });
+    return "FAILED";
+}
+
+/**
+ * Write an SMS log row. Logging failures are only reported.
+ *
+ * @param {object} data - The log row.
+ * @returns {Promise<void>}
+ */
+async function writeLog(data: {
+    phone: string;
+    purpose: string;
+    locale: string;
+    status: SmsStatus;
+    provider: string | null;
+    provider_message_id?: string | null;
+    cost?: number | null;
+    attempts: number;
+    error: string | null;
+}): Promise<void> {
+    try {
+        await prisma.smsLog.create({ data });
+    } catch (err) {
+        logger.error(`[SMS] Error writing SMS log: ${err}`);
+    }
+}
+
+/**
+ * Send the template of a purpose.
+ *
+ * @param {string} to - The recipient's phone number.
+ * @param {string} purpose - The template purpose (e.g. REGISTRATION, SHADOW_CREDIT).
+ * @param {object} params - Values for the template placeholders.
+ * @param {SmsLocale} [locale] - The locale, SMS_DEFAULT_LOCALE if omitted.
+ * @returns {Promise<SmsStatus>} Whether the message was sent.
+ */
+export async function sendTemplate(
+    to: string,
+    purpose: string,
+    params: Record<string, string | number>,
+    locale: SmsLocale = getDefaultLocale()
+): Promise<SmsStatus> {
+    return deliver(
+        to,
+        purpose,
+        locale,
+        renderTemplate(purpose, locale, params),
+        params.code !== undefined
+            ? renderTemplate(purpose, locale, {
+                  ...params,
+                  code: "*".repeat(String(params.code).length)
+              })
+            : undefined
+    );
+}
+
+/**
+ * Send a verification code.
+ *
+ * @param {string} to - The recipient's phone number.
+ * @param {string} code - The verification code.
+ * @param {string} purpose - The OTP purpose, which selects the template.
+ * @returns {Promise<SmsStatus>} Whether the message was sent.
+ */
+export async function sendOtp(
+    to: string,
+    code: string,
+    purpose: string
+): Promise<SmsStatus> {
+    return sendTemplate(to, purpose, { code });
+}
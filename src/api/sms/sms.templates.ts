@@ -0,0 +1,99 @@
+export const SMS_LOCALES = ["ar", "en"] as const;
+export type SmsLocale = (typeof SMS_LOCALES)[number];
+
+/**
+ * Message templates by purpose and locale. Placeholders are written as
+ * {name} and filled from the params passed to renderTemplate.
+ */
+const SMS_TEMPLATES: Record<string, Record<SmsLocale, string>> = {
+    // OTP purposes
+    REGISTRATION: {
+        ar: "رمز التحقق الخاص بك في Grow هو {code}",
+        en: "Your Grow verification code is {code}"
+    },
+    LOGIN: {
+        ar: "رمز تسجيل الدخول إلى Grow هو {code}. لا تشاركه مع أي شخص.",
+        en: "Your Grow login code is {code}. Do not share it with anyone."
+    },
+    PASSWORD_RESET: {
+        ar: "رمز إعادة تعيين كلمة المرور في Grow هو {code}. إذا لم تطلبه فتجاهل هذه الرسالة.",
+        en: "Your Grow password reset code is {code}. If you did not request it, ignore this message."
+    },
+    PHONE_CHANGE: {
+        ar: "رمز تأكيد رقم هاتفك الجديد في Grow هو {code}",
+        en: "Your Grow code to confirm your new phone number is {code}"
+    },
+
+    PIN_RESET: {
+        ar: "رمز إعادة تعيين رقم PIN للمعاملات في Grow هو {code}. لا تشاركه مع أي شخص.",
+        en: "Your Grow transaction PIN reset code is {code}. Do not share it with anyone."
+    },
+
+    // Account security
+    PASSWORD_CHANGED: {
+        ar: "تم تغيير كلمة مرور حسابك في Grow وتسجيل خروجك من جميع الأجهزة. إذا لم تقم بذلك فتواصل مع الدعم فوراً.",
+        en: "Your Grow password was changed and you were signed out on all devices. If this was not you, contact support right away."
+    },
+    PIN_CHANGED: {
+        ar: "تم تغيير رقم PIN للمعاملات في حسابك على Grow. إذا لم تقم بذلك فتواصل مع الدعم فوراً.",
+        en: "Your Grow transaction PIN was changed. If this was not you, contact support right away."
+    },
+
+    // Shadow wallets
+    SHADOW_CREDIT: {
+        ar: "لقد استلمت {amount} نقطة Grow. رصيدك {balance} نقطة. حمّل تطبيق Grow لاستلامها: {url}",
+        en: "You received {amount} Grow points. Your balance is {balance} points. Download the Grow app to claim them: {url}"
+    },
+    SHADOW_REMINDER: {
+        ar: "لديك {balance} نقطة Grow لم تستلمها بعد. حمّل تطبيق Grow لاستلامها: {url}",
+        en: "You have {balance} unclaimed Grow points. Download the Grow app to claim them: {url}"
+    },
+    SHADOW_REMINDER_EXPIRING: {
+        ar: "لديك {balance} نقطة Grow لم تستلمها بعد وتنتهي صلاحيتها خلال {days} يوم. حمّل تطبيق Grow لاستلامها: {url}",
+        en: "You have {balance} unclaimed Grow points. They expire in {days} days. Download the Grow app to claim them: {url}"
+    }
+};
+
+/**
+ * The locale used when none is given (SMS_DEFAULT_LOCALE, Arabic by default).
+ *
+ * @returns {SmsLocale} The default locale.
+ */
+export function getDefaultLocale(): SmsLocale {
+    const locale = process.env.SMS_DEFAULT_LOCALE as SmsLocale;
+    return SMS_LOCALES.includes(locale) ? locale : "ar";
+}
+
+/**
+ * Whether a template exists for a purpose.
+ *
+ * @param {string} purpose - The purpose.
+ * @returns {boolean} True if the purpose has a template.
+ */
+export function hasTemplate(purpose: string): boolean {
+    return purpose in SMS_TEMPLATES;
+}
+
+/**
+ * Render the template of a purpose in a locale.
+ *
+ * @param {string} purpose - The purpose.
+ * @param {SmsLocale} locale - The locale.
+ * @param {object} params - Values for the template placeholders.
+ * @returns {string} The message body.
+ * @throws {Error} If the purpose has no template.
+ */
+export function renderTemplate(
+    purpose: string,
+    locale: SmsLocale,
+    params: Record<string, string | number>
+): string {
+    const template = SMS_TEMPLATES[purpose];
+    if (!template) {
+        throw new Error(`No SMS template for purpose ${purpose}`);
+    }
+
+    return template[locale].replace(/\{(\w+)\}/g, (_, key: string) =>
+        params[key] !== undefined ? String(params[key]) : ""
+    );
+}
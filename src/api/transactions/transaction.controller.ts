@@ -37,7 +37,8 @@ export const sendPoints = asyncHandler(async (req: Request, res: Response) => {
         due: {
             id: result.due.id,
             amount: result.due.amount.toString()
-        }
+        },
+        credit_warning: result.credit_warning
     });
 });
 
@@ -78,8 +79,13 @@ export const getHistory = asyncHandler(async (req: Request, res: Response) => {
 export const getDailyStats = asyncHandler(
     async (req: Request, res: Response) => {
         const userId = req.user!.id;
+        const { workerProfileId, kioskId } = req.query;
 
-        const stats = await transactionService.getDailyStats(userId);
+        const stats = await transactionService.getDailyStats(
+            userId,
+            workerProfileId as string | undefined,
+            kioskId as string | undefined
+        );
 
         ResponseHandler.success(
             res,
@@ -88,3 +94,40 @@ export const getDailyStats = asyncHandler(
         );
     }
 );
+
+/**
+ * Reverse a deposit transaction.
+ *
+ * @param {Request} req - The Express request object containing transactionId in params and reason in body.
+ * @param {Response} res - The Express response object.
+ */
+export const reverseTransaction = asyncHandler(
+    async (req: Request, res: Response) => {
+        const ownerId = req.user!.id;
+        const { transactionId } = req.params;
+        const { reason } = req.body;
+
+        const reversal = await transactionService.reverseTransaction(
+            transactionId,
+            ownerId,
+            false,
+            reason,
+            req,
+            res
+        );
+
+        if (res.headersSent) return;
+
+        ResponseHandler.success(res, "Transaction reversed successfully", {
+            reversal: {
+                id: reversal.id,
+                transaction_id: reversal.transaction_id,
+                amount_clawed: reversal.amount_clawed.toString(),
+                commission_clawed: reversal.commission_clawed.toString(),
+                due_offset: reversal.due_offset.toString(),
+                reason: reversal.reason,
+                created_at: reversal.created_at
+            }
+        });
+    }
+);
@@ -4,9 +4,14 @@ import {
     authMiddleware,
     roleGuard
 } from "../../middlewares/auth.middleware.js";
-import { sendPointsSchema } from "../../schemas/validation.schema.js";
+import {
+    reverseTransactionSchema,
+    sendPointsSchema
+} from "../../schemas/validation.schema.js";
 import { validateRequest } from "../../middlewares/validate.middleware.js";
 import { transactionLimiter } from "../../middlewares/ratelimit.middleware.js";
+import { idempotency } from "../../middlewares/idempotency.middleware.js";
+import { transactionPin } from "../../middlewares/transactionPin.middleware.js";
 
 const router = Router();
 
@@ -17,11 +22,15 @@ router.use(roleGuard("WORKER", "OWNER"));
 /**
  * POST /api/transactions
  * Send points to customer.
+ * Sends above the PIN threshold need the X-Transaction-Pin header.
+ * Supports an optional Idempotency-Key header for safe retries.
  */
 router.post(
     "/",
     transactionLimiter,
     validateRequest(sendPointsSchema),
+    transactionPin({ aboveThreshold: true }),
+    idempotency("POST /transactions"),
     transactionController.sendPoints
 );
 
@@ -37,4 +46,16 @@ router.get("/", transactionController.getHistory);
  */
 router.get("/stats", transactionController.getDailyStats);
 
+/**
+ * POST /api/transactions/:transactionId/reverse
+ * Reverse a deposit within the reversal window (Owner only).
+ */
+router.post(
+    "/:transactionId/reverse",
+    roleGuard("OWNER"),
+    validateRequest(reverseTransactionSchema),
+    transactionPin(),
+    transactionController.reverseTransaction
+);
+
 export default router;
@@ -1,15 +1,20 @@
 import { errorHandler } from "./../../middlewares/error.middleware.js";
-
+import { Prisma } from "@prisma/client";
 import prisma from "../../prisma.js";
 import {
     NotFoundError,
     AuthorizationError,
     BusinessLogicError,
+    ConflictError,
     ErrorCode
 } from "../../utils/response.js";
 import logger from "../../utils/logger.js";
 import { Request, Response } from "express";
 import * as notificationService from "../notifications/notifications.service.js";
+import * as ledgerService from "../ledger/ledger.service.js";
+import * as shadowWalletService from "../wallet/shadowWallet.service.js";
+import * as commissionService from "../commissions/commission.service.js";
+import * as duesService from "../dues/dues.service.js";
 
 /**
  * Constants for transaction limits
@@ -25,7 +30,8 @@ async function getTransactionSettings() {
                     "commission_rate",
                     "max_transaction_amount",
                     "max_daily_tx",
-                    "max_daily_tx_to_customer"
+                    "max_daily_tx_to_customer",
+                    "reversal_window_minutes"
                 ]
             }
         }
@@ -51,6 +57,79 @@ async function getTransactionSettings() {
         maxDailyTxPerWorker: Number(settingsMap["max_daily_tx"] || 150),
         maxDailyTxToCustomer: Number(
             settingsMap["max_daily_tx_to_customer"] || 2
+        ),
+        reversalWindowMinutes: Number(
+            settingsMap["reversal_window_minutes"] || 30
+        )
+    };
+}
+
+/**
+ * Resolve the limits that apply to a kiosk and, optionally, one of its workers.
+ * Kiosk overrides (admin) replace the global settings and act as ceilings;
+ * worker overrides (owner) can only tighten them.
+ *
+ * @param {string | null} [kioskId] - The ID of the kiosk.
+ * @param {string | null} [workerProfileId] - The ID of the worker profile.
+ * @returns {Promise<object>} The transaction settings with effective limits and the kiosk ceilings.
+ */
+export async function getEffectiveLimits(
+    kioskId?: string | null,
+    workerProfileId?: string | null
+) {
+    const settings = await getTransactionSettings();
+
+    const [kiosk, profile] = await Promise.all([
+        kioskId
+            ? prisma.kiosk.findUnique({
+                  where: { id: kioskId },
+                  select: {
+                      max_transaction_amount: true,
+                      max_daily_tx: true,
+                      max_daily_tx_to_customer: true
+                  }
+              })
+            : null,
+        workerProfileId
+            ? prisma.workerProfile.findUnique({
+                  where: { id: workerProfileId },
+                  select: {
+                      max_transaction_amount: true,
+                      max_daily_tx: true,
+                      max_daily_tx_to_customer: true
+                  }
+              })
+            : null
+    ]);
+
+    const ceilings = {
+        maxTransactionAmount:
+            kiosk?.max_transaction_amount ?? settings.maxTransactionAmount,
+        maxDailyTxPerWorker:
+            kiosk?.max_daily_tx ?? settings.maxDailyTxPerWorker,
+        maxDailyTxToCustomer:
+            kiosk?.max_daily_tx_to_customer ?? settings.maxDailyTxToCustomer
+    };
+
+    const pick = (override: number | null | undefined, ceiling: number) =>
+        override !== null && override !== undefined
+            ? Math.min(override, ceiling)
+            : ceiling;
+
+    return {
+        ...settings,
+        ceilings,
+        maxTransactionAmount: pick(
+            profile?.max_transaction_amount,
+            ceilings.maxTransactionAmount
+        ),
+        maxDailyTxPerWorker: pick(
+            profile?.max_daily_tx,
+            ceilings.maxDailyTxPerWorker
+        ),
+        maxDailyTxToCustomer: pick(
+            profile?.max_daily_tx_to_customer,
+            ceilings.maxDailyTxToCustomer
         )
     };
 }
@@ -250,7 +329,8 @@ async function checkConstraints(
         return false;
     }
 
-    // Constraint 3: Total Daily Tx count for this worker < maxDailyTxPerWorker
+    // Constraint 3: Total Daily Tx count for this worker < maxDailyTxPerWorker.
+    // The cap is per worker across all kiosks; overrides only change its size.
     const totalDailyTxs = await prisma.transaction.count({
         where: {
             sender_id: senderId,
@@ -285,7 +365,7 @@ async function checkConstraints(
  * @param {number} amount - The transaction amount.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
- * @returns {Promise<object | null>} The transaction result containing transaction record and due, or null on error.
+ * @returns {Promise<object | null>} The transaction record, the due and any credit warning for the kiosk, or null on error.
  */
 export async function sendPoints(
     senderId: string,
@@ -315,8 +395,8 @@ export async function sendPoints(
         }
     }
 
-    // Get settings
-    const settings = await getTransactionSettings();
+    // Get settings with kiosk and worker overrides applied
+    const settings = await getEffectiveLimits(kioskId, workerProfileId);
 
     // Check constraints
     const constraintsPassed = await checkConstraints(
@@ -330,10 +410,16 @@ export async function sendPoints(
     );
     if (!constraintsPassed) return null;
 
-    // Calculate amounts
-    const fee = settings.commissionRate;
-    const customerAmount = amount - fee;
-    const commission = settings.commissionRate;
+    // Calculate amounts from the kiosk's commission rule
+    const quote = await commissionService.quoteCommission(
+        kiosk,
+        amount,
+        settings.commissionRate
+    );
+    // Decimal math, so the receiver and commission legs sum to the amount
+    // exactly and the ledger journal balances
+    const commission = quote.commission;
+    const customerAmount = new Prisma.Decimal(amount).minus(commission);
 
     // Check for active recurring goal (Daily Target) created by owner
     const activeGoal = await prisma.goal.findFirst({
@@ -356,6 +442,25 @@ export async function sendPoints(
 
     // Execute within transaction
     const result = await prisma.$transaction(async (tx) => {
+        // Lock the kiosk row so concurrent sends check its unpaid dues one at
+        // a time, then check them (including this send) against its credit
+        // policy
+        await tx.$queryRaw`SELECT id FROM "Kiosk" WHERE id = ${kioskId} FOR UPDATE`;
+        const credit = await duesService.getCreditExposure(kioskId, amount, tx);
+        if (credit.status === "BLOCKED") {
+            throw credit.reason === "CREDIT_LIMIT"
+                ? new BusinessLogicError(
+                      `Kiosk credit limit reached. Unpaid dues of ${credit.outstanding} points plus this send exceed the limit of ${credit.credit_limit} points.`,
+                      ErrorCode.CREDIT_LIMIT_EXCEEDED,
+                      credit
+                  )
+                : new BusinessLogicError(
+                      `Kiosk has dues unpaid for ${credit.oldest_due_age_days} days (limit ${credit.max_due_age_days}). Pay them to keep sending points.`,
+                      ErrorCode.DUES_OVERDUE,
+                      credit
+                  );
+        }
+
         // Check if receiver is registered user or shadow wallet
         let receiverId: string | null = null;
         const receiver = await tx.user.findUnique({
@@ -374,7 +479,10 @@ export async function sendPoints(
             // Add to shadow wallet
             await tx.shadowWallet.upsert({
                 where: { phone: receiverPhone },
-                update: { balance: { increment: customerAmount } },
+                update: {
+                    balance: { increment: customerAmount },
+                    ...shadowWalletService.shadowDepositUpdate()
+                },
                 create: { phone: receiverPhone, balance: customerAmount }
             });
             logger.info(`[TX] Added ${customerAmount} to shadow wallet`);
@@ -402,15 +510,6 @@ export async function sendPoints(
             );
         }
 
-        // Create kiosk due
-        const due = await tx.kioskDue.create({
-            data: {
-                kiosk_id: kioskId,
-                amount: amount
-            }
-        });
-        logger.info(`[TX] Created due: ${due.id}`);
-
         // Create transaction record
         const transaction = await tx.transaction.create({
             data: {
@@ -424,19 +523,80 @@ export async function sendPoints(
                 commission: commission,
                 type: "DEPOSIT",
                 status: "COMPLETED",
-                commission_status: commissionStatus
+                commission_status: commissionStatus,
+                commission_rule_id: quote.rule?.id || null,
+                commission_rule_version: quote.rule?.version || null
             }
         });
         logger.info(`[TX] Transaction recorded: ${transaction.id}`);
 
+        // Create kiosk due
+        const due = await tx.kioskDue.create({
+            data: {
+                kiosk_id: kioskId,
+                transaction_id: transaction.id,
+                amount: amount
+            }
+        });
+        logger.info(`[TX] Created due: ${due.id}`);
+
+        // Post ledger journal: kiosk dues fund the receiver and the commission
+        await ledgerService.recordJournal(
+            tx,
+            { type: "TRANSACTION", transaction_id: transaction.id },
+            [
+                {
+                    account: "DUES_CLEARING",
+                    direction: "DEBIT",
+                    amount,
+                    kiosk_id: kioskId
+                },
+                receiver
+                    ? ledgerService.walletLine(
+                          receiver.role,
+                          receiver.id,
+                          "CREDIT",
+                          customerAmount
+                      )
+                    : ledgerService.shadowLine(
+                          receiverPhone,
+                          "CREDIT",
+                          customerAmount
+                      ),
+                commissionStatus === "PAID"
+                    ? ledgerService.walletLine(
+                          sender.role,
+                          senderId,
+                          "CREDIT",
+                          commission
+                      )
+                    : ledgerService.walletLine(
+                          "OWNER",
+                          kiosk.owner_id,
+                          "CREDIT",
+                          commission
+                      )
+            ],
+            "Points deposit"
+        );
+
         return {
             transaction,
-            due
+            due,
+            credit
         };
     });
 
     logger.info(`[TX] Transaction completed successfully`);
 
+    // Invite unregistered receivers to claim their points
+    if (!result.transaction.receiver_id) {
+        await shadowWalletService.sendShadowCreditSMS(
+            receiverPhone,
+            customerAmount.toNumber()
+        );
+    }
+
     // Notify worker: Transaction completed
     await notificationService.notifyWorkerTransaction(
         senderId,
@@ -454,7 +614,286 @@ export async function sendPoints(
         );
     }
 
-    return result;
+    const { credit, ...created } = result;
+    return {
+        ...created,
+        credit_warning: credit.status === "WARNING" ? credit : null
+    };
+}
+
+/**
+ * Reverse a completed deposit.
+ * Claws back the net amount from the receiver, the commission from whoever
+ * holds it (sender when PAID, kiosk owner when PENDING/FORFEITED), cancels
+ * the unpaid part of the kiosk due and credits the kiosk with the part
+ * already collected.
+ *
+ * @param {string} transactionId - The ID of the transaction to reverse.
+ * @param {string} actorId - The ID of the owner or admin reversing it.
+ * @param {boolean} isAdmin - Admins may reverse any deposit at any time.
+ * @param {string} reason - Why the deposit is being reversed.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The reversal record, or null on error.
+ */
+export async function reverseTransaction(
+    transactionId: string,
+    actorId: string,
+    isAdmin: boolean,
+    reason: string,
+    req: Request,
+    res: Response
+) {
+    try {
+        const original = await prisma.transaction.findUnique({
+            where: { id: transactionId },
+            include: {
+                kiosk: { select: { name: true, owner_id: true } },
+                sender: { select: { role: true } }
+            }
+        });
+
+        if (!original) {
+            errorHandler(new NotFoundError("Transaction not found"), req, res);
+            return null;
+        }
+
+        if (!isAdmin && original.kiosk?.owner_id !== actorId) {
+            errorHandler(
+                new AuthorizationError(
+                    "You can only reverse transactions of your own kiosks"
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (original.type !== "DEPOSIT" || original.status !== "COMPLETED") {
+            errorHandler(
+                new BusinessLogicError(
+                    `Only completed deposits can be reversed (status: ${original.status})`,
+                    ErrorCode.TRANSACTION_NOT_REVERSIBLE
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (!isAdmin) {
+            const settings = await getTransactionSettings();
+            const windowEnd =
+                original.created_at.getTime() +
+                settings.reversalWindowMinutes * 60 * 1000;
+
+            if (Date.now() > windowEnd) {
+                errorHandler(
+                    new BusinessLogicError(
+                        `Transactions can only be reversed within ${settings.reversalWindowMinutes} minutes`,
+                        ErrorCode.REVERSAL_WINDOW_EXPIRED,
+                        { windowMinutes: settings.reversalWindowMinutes }
+                    ),
+                    req,
+                    res
+                );
+                return null;
+            }
+        }
+
+        logger.info(
+            `[TX] Reversing transaction ${transactionId} by ${actorId}`
+        );
+
+        const reversal = await prisma.$transaction(async (tx) => {
+            // Flip status first so concurrent reversals cannot both pass
+            const flipped = await tx.transaction.updateMany({
+                where: { id: transactionId, status: "COMPLETED" },
+                data: { status: "REVERSED" }
+            });
+            if (flipped.count === 0) {
+                throw new ConflictError("Transaction is already reversed");
+            }
+
+            // 1. Claw back net amount from the receiver.
+            // A shadow wallet may have been claimed since, so resolve by phone.
+            const receiver = original.receiver_id
+                ? await tx.user.findUnique({
+                      where: { id: original.receiver_id }
+                  })
+                : await tx.user.findUnique({
+                      where: { phone: original.receiver_phone }
+                  });
+
+            let receiverLine: ledgerService.LedgerLine;
+            if (receiver) {
+                const wallet = await tx.wallet.findUnique({
+                    where: { user_id: receiver.id }
+                });
+                if (!wallet || wallet.balance.lessThan(original.amount_net)) {
+                    throw new BusinessLogicError(
+                        "Receiver balance is too low to reverse this transaction",
+                        ErrorCode.INSUFFICIENT_BALANCE
+                    );
+                }
+                await tx.wallet.update({
+                    where: { user_id: receiver.id },
+                    data: { balance: { decrement: original.amount_net } }
+                });
+                receiverLine = ledgerService.walletLine(
+                    receiver.role,
+                    receiver.id,
+                    "DEBIT",
+                    original.amount_net
+                );
+            } else {
+                const shadow = await tx.shadowWallet.findUnique({
+                    where: { phone: original.receiver_phone }
+                });
+                if (!shadow || shadow.balance.lessThan(original.amount_net)) {
+                    throw new BusinessLogicError(
+                        "Receiver balance is too low to reverse this transaction",
+                        ErrorCode.INSUFFICIENT_BALANCE
+                    );
+                }
+                await tx.shadowWallet.update({
+                    where: { phone: original.receiver_phone },
+                    data: { balance: { decrement: original.amount_net } }
+                });
+                receiverLine = ledgerService.shadowLine(
+                    original.receiver_phone,
+                    "DEBIT",
+                    original.amount_net
+                );
+            }
+
+            // 2. Undo commission from whoever holds it
+            const commissionHolderId =
+                original.commission_status === "PAID"
+                    ? original.sender_id
+                    : original.kiosk.owner_id;
+            const commissionHolderRole =
+                original.commission_status === "PAID"
+                    ? original.sender.role
+                    : "OWNER";
+
+            const holderWallet = await tx.wallet.findUnique({
+                where: { user_id: commissionHolderId }
+            });
+            if (
+                !holderWallet ||
+                holderWallet.balance.lessThan(original.commission)
+            ) {
+                throw new BusinessLogicError(
+                    "Commission holder balance is too low to reverse this transaction",
+                    ErrorCode.INSUFFICIENT_BALANCE
+                );
+            }
+            await tx.wallet.update({
+                where: { user_id: commissionHolderId },
+                data: { balance: { decrement: original.commission } }
+            });
+
+            // 3. Cancel what is still unpaid on the due and credit the kiosk
+            // with whatever was already collected against it
+            const due = await tx.kioskDue.findFirst({
+                where: {
+                    transaction_id: transactionId,
+                    amount: { gt: 0 }
+                }
+            });
+            let cancelled = new Prisma.Decimal(0);
+            let credited = original.amount_gross;
+            if (due && !due.is_paid && !due.is_cancelled) {
+                const { count } = await tx.kioskDue.updateMany({
+                    where: {
+                        id: due.id,
+                        paid_amount: due.paid_amount,
+                        is_paid: false
+                    },
+                    data: { is_cancelled: true }
+                });
+                if (count === 0) {
+                    throw new ConflictError(
+                        "The kiosk due was settled concurrently, please retry"
+                    );
+                }
+                cancelled = duesService.remainingOf(due);
+                credited = new Prisma.Decimal(due.paid_amount);
+            }
+            if (credited.gt(0)) {
+                await tx.kioskDue.create({
+                    data: {
+                        kiosk_id: original.kiosk_id,
+                        transaction_id: transactionId,
+                        amount: credited.negated()
+                    }
+                });
+            }
+            await duesService.refreshInvoiceStatuses(tx, original.kiosk_id);
+
+            // 4. Post the mirror of the deposit journal
+            await ledgerService.recordJournal(
+                tx,
+                { type: "REVERSAL", transaction_id: transactionId },
+                [
+                    receiverLine,
+                    ledgerService.walletLine(
+                        commissionHolderRole,
+                        commissionHolderId,
+                        "DEBIT",
+                        original.commission
+                    ),
+                    {
+                        account: "DUES_CLEARING",
+                        direction: "CREDIT",
+                        amount: cancelled,
+                        kiosk_id: original.kiosk_id
+                    },
+                    {
+                        account: "DUES_CLEARING",
+                        direction: "CREDIT",
+                        amount: credited,
+                        kiosk_id: original.kiosk_id
+                    }
+                ],
+                reason
+            );
+
+            return await tx.transactionReversal.create({
+                data: {
+                    transaction_id: transactionId,
+                    reversed_by: actorId,
+                    reason,
+                    amount_clawed: original.amount_net,
+                    clawed_from_id: receiver?.id ?? null,
+                    commission_clawed: original.commission,
+                    due_offset: original.amount_gross
+                }
+            });
+        });
+
+        logger.info(`[TX] Transaction ${transactionId} reversed`);
+
+        await notificationService.notifyTransactionReversed(
+            original.sender_id,
+            original.amount_gross.toString(),
+            original.receiver_phone
+        );
+        if (original.sender_id !== original.kiosk.owner_id) {
+            await notificationService.notifyTransactionReversed(
+                original.kiosk.owner_id,
+                original.amount_gross.toString(),
+                original.receiver_phone
+            );
+        }
+
+        return reversal;
+    } catch (err) {
+        logger.error(`[TX] Error reversing transaction: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
 }
 
 /**
@@ -518,6 +957,7 @@ export async function getTransactionHistory(
                 : Number(t.commission),
             type: t.type,
             status: t.status,
+            commission_rule_version: t.commission_rule_version,
             kiosk: t.kiosk,
             created_at: t.created_at
         })),
@@ -526,12 +966,21 @@ export async function getTransactionHistory(
 }
 
 /**
- * Get daily transaction stats.
+ * Get daily transaction stats with the effective limits and remaining quota.
+ * The remaining quota counts the user's sends at every kiosk, as the daily cap
+ * does.
  *
  * @param {string} userId - The ID of the user.
+ * @param {string} [workerProfileId] - Optional worker profile to scope the stats to.
+ * @param {string} [kioskId] - Optional kiosk to scope the stats to; must be one the user owns or works at.
  * @returns {Promise<object>} The daily transaction statistics.
+ * @throws {AuthorizationError} If the kiosk is not one of the user's kiosks.
  */
-export async function getDailyStats(userId: string, workerProfileId?: string) {
+export async function getDailyStats(
+    userId: string,
+    workerProfileId?: string,
+    kioskId?: string
+) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
@@ -540,20 +989,55 @@ export async function getDailyStats(userId: string, workerProfileId?: string) {
         created_at: { gte: today }
     };
 
+    if (workerProfileId) {
+        const profile = await prisma.workerProfile.findFirst({
+            where: { id: workerProfileId, user_id: userId },
+            select: { kiosk_id: true }
+        });
+        if (!profile) workerProfileId = undefined;
+        kioskId = profile?.kiosk_id || kioskId;
+    }
+
     if (workerProfileId) {
         whereClause.workerprofile_id = workerProfileId;
     }
 
-    const stats = await prisma.transaction.aggregate({
-        where: whereClause,
-        _count: true,
-        _sum: {
-            amount_gross: true,
-            commission: true
+    if (kioskId) {
+        const kiosk = await prisma.kiosk.findFirst({
+            where: {
+                id: kioskId,
+                OR: [
+                    { owner_id: userId },
+                    {
+                        workers: {
+                            some: { user_id: userId, status: "ACTIVE" }
+                        }
+                    }
+                ]
+            },
+            select: { id: true }
+        });
+        if (!kiosk) {
+            throw new AuthorizationError("You are not assigned to this kiosk");
         }
-    });
+        whereClause.kiosk_id = kioskId;
+    }
 
-    const settings = await getTransactionSettings();
+    const [stats, totalDailyTxs] = await Promise.all([
+        prisma.transaction.aggregate({
+            where: whereClause,
+            _count: true,
+            _sum: {
+                amount_gross: true,
+                commission: true
+            }
+        }),
+        prisma.transaction.count({
+            where: { sender_id: userId, created_at: { gte: today } }
+        })
+    ]);
+
+    const settings = await getEffectiveLimits(kioskId, workerProfileId);
 
     return {
         transactions_count: stats._count,
@@ -569,8 +1053,13 @@ export async function getDailyStats(userId: string, workerProfileId?: string) {
             : 0,
         remaining_limit: Math.max(
             0,
-            settings.maxDailyTxPerWorker - stats._count
-        )
+            settings.maxDailyTxPerWorker - totalDailyTxs
+        ),
+        limits: {
+            max_transaction_amount: settings.maxTransactionAmount,
+            max_daily_tx: settings.maxDailyTxPerWorker,
+            max_daily_tx_to_customer: settings.maxDailyTxToCustomer
+        }
     };
 }
 
@@ -0,0 +1,186 @@
+import prisma from "../../prisma.js";
+import logger from "../../utils/logger.js";
+import * as smsService from "../sms/sms.service.js";
+import * as ledgerService from "../ledger/ledger.service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fetch shadow wallet lifecycle settings.
+ * Reminder days are counted from the last deposit; an expiry of 0 disables expiry.
+ */
+export async function getShadowWalletSettings() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "shadow_wallet_reminder_days",
+                    "shadow_wallet_expiry_days"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    const reminders = settingsMap["shadow_wallet_reminder_days"];
+
+    return {
+        reminderDays: (Array.isArray(reminders) ? reminders : [3, 10, 30])
+            .map(Number)
+            .filter((d) => d > 0)
+            .sort((a, b) => a - b),
+        expiryDays: Number(settingsMap["shadow_wallet_expiry_days"] ?? 90)
+    };
+}
+
+/**
+ * Fields to set on a shadow wallet whenever it receives points.
+ * Restarts the reminder schedule and the expiry clock.
+ */
+export function shadowDepositUpdate() {
+    return {
+        last_deposit_at: new Date(),
+        reminders_sent: 0,
+        expired_at: null
+    };
+}
+
+/**
+ * Tell an unregistered phone that it received points, with the app link.
+ *
+ * @param {string} phone - The phone number of the shadow wallet.
+ * @param {number} amount - The amount just received.
+ */
+export async function sendShadowCreditSMS(phone: string, amount: number) {
+    try {
+        const wallet = await prisma.shadowWallet.findUnique({
+            where: { phone }
+        });
+        if (!wallet) return;
+
+        await smsService.sendTemplate(phone, "SHADOW_CREDIT", {
+            amount,
+            balance: wallet.balance.toString(),
+            url: process.env.APP_DOWNLOAD_URL
+        });
+
+        await prisma.shadowWallet.update({
+            where: { phone },
+            data: { last_sms_at: new Date() }
+        });
+    } catch (err) {
+        // Never fail the deposit because of the SMS
+        logger.error(`[ShadowWallet] Error sending claim SMS: ${err}`);
+    }
+}
+
+/**
+ * Send due claim reminders and expire unclaimed balances past the expiry age.
+ *
+ * @returns {Promise<object>} Summary of reminders sent and balances expired.
+ */
+export async function processShadowWallets() {
+    const settings = await getShadowWalletSettings();
+    const summary = { reminded: 0, expired: 0, expiredPoints: 0 };
+    const now = Date.now();
+
+    const wallets = await prisma.shadowWallet.findMany({
+        where: { balance: { gt: 0 } }
+    });
+
+    for (const wallet of wallets) {
+        const ageDays = Math.floor(
+            (now - wallet.last_deposit_at.getTime()) / DAY_MS
+        );
+
+        try {
+            // Expiry
+            if (settings.expiryDays > 0 && ageDays >= settings.expiryDays) {
+                const expired = await prisma.$transaction(async (tx) => {
+                    // Skip if a deposit landed since the wallet was read
+                    const updated = await tx.shadowWallet.updateMany({
+                        where: {
+                            phone: wallet.phone,
+                            balance: wallet.balance,
+                            last_deposit_at: wallet.last_deposit_at
+                        },
+                        data: { balance: 0, expired_at: new Date() }
+                    });
+                    if (updated.count === 0) return false;
+
+                    await ledgerService.recordJournal(
+                        tx,
+                        { type: "EXPIRY" },
+                        [
+                            ledgerService.shadowLine(
+                                wallet.phone,
+                                "DEBIT",
+                                wallet.balance
+                            ),
+                            {
+                                account: "EXPIRED_POINTS",
+                                direction: "CREDIT",
+                                amount: wallet.balance
+                            }
+                        ],
+                        `Unclaimed shadow wallet expired after ${settings.expiryDays} days`
+                    );
+                    return true;
+                });
+                if (!expired) continue;
+
+                summary.expired++;
+                summary.expiredPoints += wallet.balance.toNumber();
+                logger.info(
+                    `[ShadowWallet] Expired ${wallet.balance} unclaimed points for ${wallet.phone}`
+                );
+                continue;
+            }
+
+            // Reminders
+            const nextReminder = settings.reminderDays[wallet.reminders_sent];
+            if (nextReminder !== undefined && ageDays >= nextReminder) {
+                await smsService.sendTemplate(
+                    wallet.phone,
+                    settings.expiryDays > 0
+                        ? "SHADOW_REMINDER_EXPIRING"
+                        : "SHADOW_REMINDER",
+                    {
+                        balance: wallet.balance.toString(),
+                        days: settings.expiryDays - ageDays,
+                        url: process.env.APP_DOWNLOAD_URL
+                    }
+                );
+
+                await prisma.shadowWallet.update({
+                    where: { phone: wallet.phone },
+                    data: {
+                        reminders_sent: { increment: 1 },
+                        last_sms_at: new Date()
+                    }
+                });
+                summary.reminded++;
+            }
+        } catch (err) {
+            logger.error(
+                `[ShadowWallet] Error processing ${wallet.phone}: ${err}`
+            );
+        }
+    }
+
+    logger.info(
+        `[ShadowWallet] Sent ${summary.reminded} reminders, expired ${summary.expired} wallets (${summary.expiredPoints} points)`
+    );
+    return summary;
+}
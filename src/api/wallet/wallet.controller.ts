@@ -19,6 +19,28 @@ export const getBalance = asyncHandler(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Get the available redemption methods and their rules.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const getRedemptionMethods = asyncHandler(
+    async (req: Request, res: Response) => {
+        const rules = await walletService.getRedemptionRules();
+
+        ResponseHandler.success(
+            res,
+            "Redemption methods retrieved successfully",
+            {
+                methods: Object.entries(rules)
+                    .filter(([, rule]) => rule.enabled)
+                    .map(([method, rule]) => ({ method, ...rule }))
+            }
+        );
+    }
+);
+
 /**
  * Create redemption request.
  *
@@ -39,9 +61,12 @@ export const redeem = asyncHandler(async (req: Request, res: Response) => {
         res
     );
 
+    if (res.headersSent) return;
+
     ResponseHandler.created(res, "Redemption request created successfully", {
         id: redemption.id,
         amount: redemption.amount.toString(),
+        fee: redemption.fee.toString(),
         method: redemption.method,
         details: redemption.details,
         type: redemption.type,
@@ -50,6 +75,68 @@ export const redeem = asyncHandler(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Get the user's redemption requests with status timelines.
+ *
+ * @param {Request} req - The Express request object containing page and limit in query.
+ * @param {Response} res - The Express response object.
+ */
+export const getRedemptions = asyncHandler(
+    async (req: Request, res: Response) => {
+        const userId = req.user!.id;
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+        const offset = (page - 1) * limit;
+
+        const result = await walletService.getRedemptions(
+            userId,
+            limit,
+            offset
+        );
+
+        ResponseHandler.paginated(
+            res,
+            result.redemptions,
+            "Redemptions retrieved successfully",
+            page,
+            limit,
+            result.total
+        );
+    }
+);
+
+/**
+ * Transfer points to another customer.
+ *
+ * @param {Request} req - The Express request object containing phone and amount in body.
+ * @param {Response} res - The Express response object.
+ */
+export const transfer = asyncHandler(async (req: Request, res: Response) => {
+    const senderId = req.user!.id;
+    const { phone, amount } = req.body;
+
+    const transaction = await walletService.transferPoints(
+        senderId,
+        phone,
+        amount,
+        req,
+        res
+    );
+
+    if (res.headersSent) return;
+
+    ResponseHandler.created(res, "Points transferred successfully", {
+        id: transaction.id,
+        receiver_phone: transaction.receiver_phone,
+        amount: transaction.amount_net.toString(),
+        fee: transaction.commission.toString(),
+        total: transaction.amount_gross.toString(),
+        type: transaction.type,
+        status: transaction.status,
+        created_at: transaction.created_at
+    });
+});
+
 /**
  * Create goal.
  *
@@ -6,9 +6,12 @@ import {
 } from "../../middlewares/auth.middleware.js";
 import {
     redeemSchema,
+    transferSchema,
     createGoalSchema
 } from "../../schemas/validation.schema.js";
 import { validateRequest } from "../../middlewares/validate.middleware.js";
+import { idempotency } from "../../middlewares/idempotency.middleware.js";
+import { transactionPin } from "../../middlewares/transactionPin.middleware.js";
 
 const router = Router();
 
@@ -21,11 +24,45 @@ router.use(authMiddleware);
  */
 router.get("/balance", walletController.getBalance);
 
+/**
+ * GET /api/wallet/redemption-methods
+ * Get enabled redemption methods with their limits, fees and details format.
+ */
+router.get("/redemption-methods", walletController.getRedemptionMethods);
+
 /**
  * POST /api/wallet/redeem
  * Create redemption request.
+ * Needs the X-Transaction-Pin header once the user has a PIN.
+ * Supports an optional Idempotency-Key header for safe retries.
+ */
+router.post(
+    "/redeem",
+    validateRequest(redeemSchema),
+    transactionPin(),
+    idempotency("POST /wallet/redeem"),
+    walletController.redeem
+);
+
+/**
+ * GET /api/wallet/redemptions
+ * Get user's redemption requests with status timelines.
+ */
+router.get("/redemptions", walletController.getRedemptions);
+
+/**
+ * POST /api/wallet/transfer
+ * Transfer points to another customer (Customer only).
+ * Needs the X-Transaction-Pin header once the user has a PIN.
  */
-router.post("/redeem", validateRequest(redeemSchema), walletController.redeem);
+router.post(
+    "/transfer",
+    roleGuard("CUSTOMER"),
+    validateRequest(transferSchema),
+    transactionPin(),
+    idempotency("POST /wallet/transfer"),
+    walletController.transfer
+);
 
 /**
  * POST /api/wallet/goals
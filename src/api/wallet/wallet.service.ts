@@ -2,20 +2,169 @@ import prisma from "../../prisma.js";
 import {
     NotFoundError,
     BusinessLogicError,
+    ValidationError,
     ErrorCode,
     AppError
 } from "../../utils/response.js";
 import logger from "../../utils/logger.js";
 import { errorHandler } from "../../middlewares/error.middleware.js";
 import { Request, Response } from "express";
-import { Goal } from "@prisma/client";
+import { Goal, Prisma } from "@prisma/client";
 import * as notificationService from "../notifications/notifications.service.js";
+import * as ledgerService from "../ledger/ledger.service.js";
+import * as shadowWalletService from "./shadowWallet.service.js";
+import { redemptionMethodRuleSchema } from "../../schemas/validation.schema.js";
 
 /**
- * Constants for transaction limits
+ * Redemption methods and the system setting holding each method's rule.
  */
-const REDEMPTION_FEE = 5;
-const MIN_REDEMPTION_AMOUNT = 10;
+export const REDEMPTION_METHODS: Record<string, string> = {
+    "Vodafone Cash": "redemption_method_vodafone_cash",
+    Instapay: "redemption_method_instapay",
+    "Bank Transfer": "redemption_method_bank_transfer"
+};
+
+/**
+ * Rule applied to redemptions through one method.
+ */
+export interface RedemptionMethodRule {
+    enabled: boolean;
+    min: number;
+    max: number | null;
+    fee_type: "FLAT" | "PERCENTAGE";
+    fee_value: number;
+    details_pattern: string;
+}
+
+/**
+ * Rules used when a method has no setting yet.
+ */
+const DEFAULT_REDEMPTION_RULES: Record<string, RedemptionMethodRule> = {
+    "Vodafone Cash": {
+        enabled: true,
+        min: 10,
+        max: null,
+        fee_type: "FLAT",
+        fee_value: 5,
+        details_pattern: "^(\\+?20)?01[0125][0-9]{8}$"
+    },
+    Instapay: {
+        enabled: true,
+        min: 10,
+        max: null,
+        fee_type: "FLAT",
+        fee_value: 5,
+        details_pattern: "^[A-Za-z0-9._-]+@instapay$"
+    },
+    "Bank Transfer": {
+        enabled: true,
+        min: 10,
+        max: null,
+        fee_type: "FLAT",
+        fee_value: 5,
+        details_pattern: "^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$"
+    }
+};
+
+/**
+ * Fetch the redemption rules for every method from system settings.
+ * A method without a setting falls back to its default rule, with
+ * `min_redemption` as its minimum.
+ *
+ * @returns {Promise<Record<string, RedemptionMethodRule>>} The rules keyed by method name.
+ */
+export async function getRedemptionRules(): Promise<
+    Record<string, RedemptionMethodRule>
+> {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: { in: ["min_redemption", ...Object.values(REDEMPTION_METHODS)] }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    const minRedemption = settingsMap["min_redemption"];
+
+    const rules: Record<string, RedemptionMethodRule> = {};
+    for (const [method, key] of Object.entries(REDEMPTION_METHODS)) {
+        const fallback = {
+            ...DEFAULT_REDEMPTION_RULES[method],
+            ...(minRedemption !== undefined && { min: Number(minRedemption) })
+        };
+        const parsed = redemptionMethodRuleSchema.safeParse(settingsMap[key]);
+        rules[method] = parsed.success
+            ? (parsed.data as RedemptionMethodRule)
+            : fallback;
+    }
+
+    return rules;
+}
+
+/**
+ * Validate a redemption method rule before it is stored.
+ *
+ * @param {unknown} value - The rule, as an object or a JSON string.
+ * @returns {string | null} An error message, or null if the rule is valid.
+ */
+export function validateRedemptionRule(value: unknown): string | null {
+    let rule = value;
+    if (typeof value === "string") {
+        try {
+            rule = JSON.parse(value);
+        } catch {
+            return "Redemption rule must be valid JSON";
+        }
+    }
+
+    const parsed = redemptionMethodRuleSchema.safeParse(rule);
+    if (!parsed.success) {
+        return `Invalid redemption rule: ${parsed.error.issues
+            .map((i) => `${i.path.join(".")} ${i.message}`)
+            .join(", ")}`;
+    }
+
+    if (parsed.data.max !== null && parsed.data.max < parsed.data.min) {
+        return "Invalid redemption rule: max cannot be less than min";
+    }
+
+    try {
+        new RegExp(parsed.data.details_pattern);
+    } catch {
+        return "Invalid redemption rule: details_pattern is not a valid regular expression";
+    }
+
+    return null;
+}
+
+/**
+ * Calculate the fee charged on top of a redemption, in Decimal so it can be
+ * posted to the ledger as is.
+ *
+ * @param {RedemptionMethodRule} rule - The method's rule.
+ * @param {number} amount - The redeemed amount.
+ * @returns {Prisma.Decimal} The fee, rounded to 2 decimals.
+ */
+export function calculateRedemptionFee(
+    rule: RedemptionMethodRule,
+    amount: number
+): Prisma.Decimal {
+    const fee =
+        rule.fee_type === "PERCENTAGE"
+            ? new Prisma.Decimal(amount).times(rule.fee_value).dividedBy(100)
+            : new Prisma.Decimal(rule.fee_value);
+    return fee.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
 
 /**
  * Get user's wallet balance.
@@ -175,11 +324,29 @@ export async function createRedemption(
     res: Response
 ) {
     try {
-        if (amount < MIN_REDEMPTION_AMOUNT) {
+        const rules = await getRedemptionRules();
+        const methodName = Object.keys(rules).find(
+            (m) => m.toLowerCase() === method.trim().toLowerCase()
+        );
+
+        if (!methodName) {
+            errorHandler(
+                new ValidationError(
+                    `Unsupported redemption method. Available: ${Object.keys(rules).join(", ")}`
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const rule = rules[methodName];
+
+        if (!rule.enabled) {
             errorHandler(
                 new BusinessLogicError(
-                    `Redemption amount must be at least ${MIN_REDEMPTION_AMOUNT}`,
-                    ErrorCode.INVALID_AMOUNT
+                    `${methodName} redemptions are currently unavailable`,
+                    ErrorCode.REDEMPTION_METHOD_DISABLED
                 ),
                 req,
                 res
@@ -187,8 +354,49 @@ export async function createRedemption(
             return null;
         }
 
+        if (amount < rule.min) {
+            errorHandler(
+                new BusinessLogicError(
+                    `Redemption amount must be at least ${rule.min}`,
+                    ErrorCode.INVALID_AMOUNT,
+                    { min: rule.min, requested: amount }
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (rule.max !== null && amount > rule.max) {
+            errorHandler(
+                new BusinessLogicError(
+                    `Redemption amount cannot exceed ${rule.max} for ${methodName}`,
+                    ErrorCode.REDEMPTION_LIMIT_EXCEEDED,
+                    { max: rule.max, requested: amount }
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        if (!new RegExp(rule.details_pattern).test(details.trim())) {
+            errorHandler(
+                new ValidationError(`Invalid details for ${methodName}`),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const fee = calculateRedemptionFee(rule, amount);
+        // Decimal math, so the wallet line equals the payable and fee lines
+        // exactly and the ledger journal balances
+        const total = new Prisma.Decimal(amount).plus(fee);
+
         const wallet = await prisma.wallet.findUnique({
-            where: { user_id: userId }
+            where: { user_id: userId },
+            include: { user: { select: { role: true } } }
         });
 
         if (!wallet) {
@@ -196,10 +404,10 @@ export async function createRedemption(
             return null;
         }
 
-        if (wallet.balance.toNumber() < amount + REDEMPTION_FEE) {
+        if (wallet.balance.lt(total)) {
             errorHandler(
                 new BusinessLogicError(
-                    `Insufficient balance for redemption. Required: ${amount + REDEMPTION_FEE}, Available: ${wallet.balance}`,
+                    `Insufficient balance for redemption. Required: ${total}, Available: ${wallet.balance}`,
                     ErrorCode.INSUFFICIENT_BALANCE
                 ),
                 req,
@@ -213,20 +421,49 @@ export async function createRedemption(
             // Deduct points immediately
             await tx.wallet.update({
                 where: { user_id: userId },
-                data: { balance: { decrement: amount + REDEMPTION_FEE } }
+                data: { balance: { decrement: total } }
             });
 
             // Create redemption request
-            return await tx.redemptionRequest.create({
+            const request = await tx.redemptionRequest.create({
                 data: {
                     user_id: userId,
                     amount: amount,
+                    fee,
                     type,
-                    method,
-                    details,
-                    status: "PENDING"
+                    method: methodName,
+                    details: details.trim(),
+                    status: "PENDING",
+                    status_history: { create: { to_status: "PENDING" } }
                 }
             });
+
+            // Post ledger journal: amount held for payout, fee to platform
+            await ledgerService.recordJournal(
+                tx,
+                { type: "REDEMPTION", redemption_id: request.id },
+                [
+                    ledgerService.walletLine(
+                        wallet.user.role,
+                        userId,
+                        "DEBIT",
+                        total
+                    ),
+                    {
+                        account: "REDEMPTION_PAYABLE",
+                        direction: "CREDIT",
+                        amount
+                    },
+                    {
+                        account: "PLATFORM_FEE",
+                        direction: "CREDIT",
+                        amount: fee
+                    }
+                ],
+                "Redemption requested"
+            );
+
+            return request;
         });
 
         logger.info(
@@ -286,6 +523,315 @@ export async function createRedemption(
     }
 }
 
+/**
+ * Get the user's redemption requests with their status timelines.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {number} limit - The number of requests to return.
+ * @param {number} offset - The number of requests to skip.
+ * @returns {Promise<object>} The redemptions and the total count.
+ */
+export async function getRedemptions(
+    userId: string,
+    limit: number,
+    offset: number
+) {
+    const [redemptions, total] = await Promise.all([
+        prisma.redemptionRequest.findMany({
+            where: { user_id: userId },
+            include: {
+                status_history: { orderBy: { created_at: "asc" } }
+            },
+            orderBy: { created_at: "desc" },
+            skip: offset,
+            take: limit
+        }),
+        prisma.redemptionRequest.count({ where: { user_id: userId } })
+    ]);
+
+    return {
+        redemptions: redemptions.map((r) => ({
+            id: r.id,
+            amount: r.amount.toString(),
+            fee: r.fee.toString(),
+            method: r.method,
+            details: r.details,
+            type: r.type,
+            status: r.status,
+            payout_reference: r.provider_reference,
+            proof_reference: r.proof_reference,
+            created_at: r.created_at,
+            updated_at: r.updated_at,
+            timeline: r.status_history.map((h) => ({
+                status: h.to_status,
+                note: h.note,
+                at: h.created_at
+            }))
+        })),
+        total
+    };
+}
+
+/**
+ * Fetch customer transfer limits and fee from system settings.
+ */
+async function getTransferSettings() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "transfer_fee",
+                    "transfer_max_daily_count",
+                    "transfer_max_daily_amount"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    return {
+        fee: Number(settingsMap["transfer_fee"] || 0),
+        maxDailyCount: Number(settingsMap["transfer_max_daily_count"] || 5),
+        maxDailyAmount: Number(
+            settingsMap["transfer_max_daily_amount"] || 1000
+        )
+    };
+}
+
+/**
+ * Transfer points from a customer to another phone number.
+ * Unregistered receivers get a shadow wallet, as with kiosk deposits.
+ * The optional fee is charged to the sender on top of the amount.
+ *
+ * @param {string} senderId - The ID of the sending customer.
+ * @param {string} receiverPhone - The phone number of the receiver.
+ * @param {number} amount - The amount the receiver gets.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<object | null>} The transfer transaction, or null on error.
+ */
+export async function transferPoints(
+    senderId: string,
+    receiverPhone: string,
+    amount: number,
+    req: Request,
+    res: Response
+) {
+    try {
+        const sender = await prisma.user.findUnique({
+            where: { id: senderId },
+            include: { wallet: true }
+        });
+
+        if (!sender || !sender.wallet) {
+            errorHandler(new NotFoundError("Wallet not found"), req, res);
+            return null;
+        }
+
+        if (sender.phone === receiverPhone) {
+            errorHandler(
+                new ValidationError("You cannot transfer points to yourself"),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const receiver = await prisma.user.findUnique({
+            where: { phone: receiverPhone }
+        });
+
+        if (receiver && (receiver.role !== "CUSTOMER" || !receiver.is_active)) {
+            errorHandler(
+                new BusinessLogicError(
+                    "Points can only be transferred to active customers",
+                    ErrorCode.INVALID_TRANSFER_RECEIVER
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const settings = await getTransferSettings();
+        const fee = new Prisma.Decimal(settings.fee);
+        const total = new Prisma.Decimal(amount).plus(fee);
+
+        if (sender.wallet.balance.lt(total)) {
+            errorHandler(
+                new BusinessLogicError(
+                    `Insufficient balance for transfer. Required: ${total}, Available: ${sender.wallet.balance}`,
+                    ErrorCode.INSUFFICIENT_BALANCE
+                ),
+                req,
+                res
+            );
+            return null;
+        }
+
+        const transaction = await prisma.$transaction(async (tx) => {
+            // Lock the sender's wallet so concurrent transfers check the
+            // daily limits one at a time
+            await tx.$queryRaw`SELECT id FROM "Wallet" WHERE "user_id" = ${senderId} FOR UPDATE`;
+
+            // Daily limits
+            const todayStart = new Date();
+            todayStart.setHours(0, 0, 0, 0);
+
+            const today = await tx.transaction.aggregate({
+                where: {
+                    sender_id: senderId,
+                    type: "TRANSFER",
+                    status: "COMPLETED",
+                    created_at: { gte: todayStart }
+                },
+                _count: true,
+                _sum: { amount_net: true }
+            });
+
+            if (today._count >= settings.maxDailyCount) {
+                throw new BusinessLogicError(
+                    `Daily transfer limit reached (${settings.maxDailyCount} transfers)`,
+                    ErrorCode.DAILY_LIMIT_EXCEEDED
+                );
+            }
+
+            const sentToday = new Prisma.Decimal(today._sum.amount_net || 0);
+            if (sentToday.plus(amount).gt(settings.maxDailyAmount)) {
+                const remaining = Prisma.Decimal.max(
+                    new Prisma.Decimal(settings.maxDailyAmount).minus(
+                        sentToday
+                    ),
+                    0
+                );
+                throw new BusinessLogicError(
+                    `Daily transfer amount limit is ${settings.maxDailyAmount}. Remaining today: ${remaining}`,
+                    ErrorCode.DAILY_LIMIT_EXCEEDED
+                );
+            }
+
+            // Deduct amount + fee, guarding against concurrent spends
+            const debited = await tx.wallet.updateMany({
+                where: { user_id: senderId, balance: { gte: total } },
+                data: { balance: { decrement: total } }
+            });
+            if (debited.count === 0) {
+                throw new BusinessLogicError(
+                    "Insufficient balance for transfer",
+                    ErrorCode.INSUFFICIENT_BALANCE
+                );
+            }
+
+            if (receiver) {
+                await tx.wallet.update({
+                    where: { user_id: receiver.id },
+                    data: { balance: { increment: amount } }
+                });
+            } else {
+                await tx.shadowWallet.upsert({
+                    where: { phone: receiverPhone },
+                    update: {
+                        balance: { increment: amount },
+                        ...shadowWalletService.shadowDepositUpdate()
+                    },
+                    create: { phone: receiverPhone, balance: amount }
+                });
+            }
+
+            const record = await tx.transaction.create({
+                data: {
+                    sender_id: senderId,
+                    receiver_phone: receiverPhone,
+                    receiver_id: receiver?.id || null,
+                    amount_gross: total,
+                    amount_net: amount,
+                    commission: fee,
+                    type: "TRANSFER",
+                    status: "COMPLETED"
+                }
+            });
+
+            await ledgerService.recordJournal(
+                tx,
+                { type: "TRANSACTION", transaction_id: record.id },
+                [
+                    ledgerService.walletLine(
+                        "CUSTOMER",
+                        senderId,
+                        "DEBIT",
+                        total
+                    ),
+                    receiver
+                        ? ledgerService.walletLine(
+                              "CUSTOMER",
+                              receiver.id,
+                              "CREDIT",
+                              amount
+                          )
+                        : ledgerService.shadowLine(
+                              receiverPhone,
+                              "CREDIT",
+                              amount
+                          ),
+                    {
+                        account: "PLATFORM_FEE",
+                        direction: "CREDIT",
+                        amount: fee
+                    }
+                ],
+                "Customer transfer"
+            );
+
+            return record;
+        });
+
+        logger.info(
+            `Transfer ${transaction.id}: ${amount} from ${sender.phone} to ${receiverPhone}`
+        );
+
+        try {
+            await notificationService.notifyTransferSent(
+                senderId,
+                amount.toString(),
+                receiverPhone
+            );
+            if (receiver) {
+                await notificationService.notifyTransferReceived(
+                    receiver.id,
+                    amount.toString(),
+                    sender.full_name
+                );
+            } else {
+                await shadowWalletService.sendShadowCreditSMS(
+                    receiverPhone,
+                    amount
+                );
+            }
+        } catch (notificationError) {
+            logger.error(
+                `Error sending transfer notifications: ${notificationError}`
+            );
+        }
+
+        return transaction;
+    } catch (err) {
+        logger.error(`Error transferring points: ${err}`);
+        errorHandler(err, req, res);
+        return null;
+    }
+}
+
 /**
  * Create goal.
  *
@@ -511,3 +1057,327 @@ export async function editGoal(
         return null;
     }
 }
+
+/**
+ * Fetch the points expiry policy from system settings.
+ * mode: "NONE" (default), "FIXED" (N months after earning) or
+ * "INACTIVITY" (N months without any wallet activity).
+ */
+export async function getExpirySettings() {
+    const settings = await prisma.systemSetting.findMany({
+        where: {
+            key: {
+                in: [
+                    "points_expiry_mode",
+                    "points_expiry_months",
+                    "points_expiry_warning_days"
+                ]
+            }
+        }
+    });
+
+    const settingsMap = settings.reduce(
+        (acc, s) => {
+            try {
+                acc[s.key] = JSON.parse(s.value);
+            } catch {
+                acc[s.key] = s.value;
+            }
+            return acc;
+        },
+        {} as Record<string, unknown>
+    );
+
+    const mode = String(settingsMap["points_expiry_mode"] || "NONE");
+
+    return {
+        mode: (["FIXED", "INACTIVITY"].includes(mode) ? mode : "NONE") as
+            | "NONE"
+            | "FIXED"
+            | "INACTIVITY",
+        months: Number(settingsMap["points_expiry_months"] || 12),
+        warningDays: Number(settingsMap["points_expiry_warning_days"] || 14)
+    };
+}
+
+/**
+ * Shift a date by a number of months (negative for the past).
+ */
+function addMonths(date: Date, months: number) {
+    const result = new Date(date);
+    result.setMonth(result.getMonth() + months);
+    return result;
+}
+
+/**
+ * Sum completed DEPOSIT net amounts per receiver phone, optionally since a date.
+ */
+async function sumDepositsByPhone(phones: string[], since?: Date) {
+    const rows = await prisma.transaction.groupBy({
+        by: ["receiver_phone"],
+        where: {
+            receiver_phone: { in: phones },
+            type: "DEPOSIT",
+            status: "COMPLETED",
+            ...(since ? { created_at: { gte: since } } : {})
+        },
+        _sum: { amount_net: true }
+    });
+    return new Map(
+        rows.map((r) => [
+            r.receiver_phone,
+            new Prisma.Decimal(r._sum.amount_net || 0)
+        ])
+    );
+}
+
+/**
+ * Latest wallet activity per phone: deposits/transfers received or sent,
+ * and redemptions requested.
+ */
+async function lastActivityByPhone(
+    holders: { phone: string; userId?: string }[]
+) {
+    const phones = holders.map((h) => h.phone);
+    const userIds = holders.filter((h) => h.userId).map((h) => h.userId);
+
+    const [received, sent, redeemed] = await Promise.all([
+        prisma.transaction.groupBy({
+            by: ["receiver_phone"],
+            where: { receiver_phone: { in: phones } },
+            _max: { created_at: true }
+        }),
+        prisma.transaction.groupBy({
+            by: ["sender_id"],
+            where: { sender_id: { in: userIds } },
+            _max: { created_at: true }
+        }),
+        prisma.redemptionRequest.groupBy({
+            by: ["user_id"],
+            where: { user_id: { in: userIds } },
+            _max: { created_at: true }
+        })
+    ]);
+
+    const byPhone = new Map(
+        received.map((r) => [r.receiver_phone, r._max.created_at])
+    );
+    const sentBy = new Map(sent.map((r) => [r.sender_id, r._max.created_at]));
+    const redeemedBy = new Map(
+        redeemed.map((r) => [r.user_id, r._max.created_at])
+    );
+
+    const result = new Map<string, Date>();
+    for (const holder of holders) {
+        const dates = [
+            byPhone.get(holder.phone),
+            holder.userId ? sentBy.get(holder.userId) : undefined,
+            holder.userId ? redeemedBy.get(holder.userId) : undefined
+        ].filter(Boolean) as Date[];
+        result.set(
+            holder.phone,
+            new Date(Math.max(0, ...dates.map((d) => d.getTime())))
+        );
+    }
+    return result;
+}
+
+/**
+ * Expire points according to the expiry policy and warn holders ahead of time.
+ *
+ * Points are consumed FIFO: spending and earlier expiries use up the oldest
+ * deposits first, so the points still held are the newest deposits. Only
+ * points that came from DEPOSIT transactions expire; commissions, refunds
+ * and adjustments never do.
+ *
+ * @returns {Promise<object>} Summary of expired points and warnings sent.
+ */
+export async function expirePoints() {
+    const policy = await getExpirySettings();
+    const summary = { expiredHolders: 0, expiredPoints: 0, warned: 0 };
+
+    if (policy.mode === "NONE") {
+        logger.info("[Expiry] Points expiry disabled");
+        return summary;
+    }
+
+    const now = new Date();
+    const warnAt = new Date(now.getTime() + policy.warningDays * 86400000);
+
+    const [wallets, shadowWallets] = await Promise.all([
+        prisma.wallet.findMany({
+            where: { balance: { gt: 0 } },
+            include: { user: { select: { id: true, phone: true, role: true } } }
+        }),
+        prisma.shadowWallet.findMany({ where: { balance: { gt: 0 } } })
+    ]);
+
+    const holders = [
+        ...wallets.map((w) => ({
+            phone: w.user.phone,
+            userId: w.user.id,
+            role: w.user.role,
+            balance: w.balance
+        })),
+        ...shadowWallets.map((s) => ({
+            phone: s.phone,
+            userId: undefined as string | undefined,
+            role: undefined as string | undefined,
+            balance: s.balance
+        }))
+    ];
+    if (holders.length === 0) return summary;
+
+    const phones = holders.map((h) => h.phone);
+    const allDeposits = await sumDepositsByPhone(phones);
+
+    // Per-holder amount expiring now and within the warning window
+    const plan = new Map<
+        string,
+        { now: Prisma.Decimal; soon: Prisma.Decimal }
+    >();
+    const zero = new Prisma.Decimal(0);
+
+    if (policy.mode === "FIXED") {
+        const [recent, recentAtWarn] = await Promise.all([
+            sumDepositsByPhone(phones, addMonths(now, -policy.months)),
+            sumDepositsByPhone(phones, addMonths(warnAt, -policy.months))
+        ]);
+        for (const h of holders) {
+            const held = Prisma.Decimal.min(
+                h.balance,
+                allDeposits.get(h.phone) || zero
+            );
+            const expiring = Prisma.Decimal.max(
+                zero,
+                held.minus(recent.get(h.phone) || zero)
+            );
+            const expiringByWarn = Prisma.Decimal.max(
+                zero,
+                held.minus(recentAtWarn.get(h.phone) || zero)
+            );
+            plan.set(h.phone, {
+                now: expiring,
+                soon: expiringByWarn.minus(expiring)
+            });
+        }
+    } else {
+        const lastActivity = await lastActivityByPhone(holders);
+        for (const h of holders) {
+            const held = Prisma.Decimal.min(
+                h.balance,
+                allDeposits.get(h.phone) || zero
+            );
+            const expiresAt = addMonths(
+                lastActivity.get(h.phone),
+                policy.months
+            );
+            plan.set(h.phone, {
+                now: expiresAt <= now ? held : zero,
+                soon: expiresAt > now && expiresAt <= warnAt ? held : zero
+            });
+        }
+    }
+
+    let expiredTotal = zero;
+    for (const h of holders) {
+        const { now: expiring, soon } = plan.get(h.phone);
+
+        try {
+            if (expiring.gt(0)) {
+                await prisma.$transaction(async (tx) => {
+                    if (h.userId) {
+                        const debited = await tx.wallet.updateMany({
+                            where: {
+                                user_id: h.userId,
+                                balance: { gte: expiring }
+                            },
+                            data: { balance: { decrement: expiring } }
+                        });
+                        if (debited.count === 0) {
+                            throw new Error("Balance changed during expiry");
+                        }
+                    } else {
+                        const debited = await tx.shadowWallet.updateMany({
+                            where: {
+                                phone: h.phone,
+                                balance: { gte: expiring }
+                            },
+                            data: { balance: { decrement: expiring } }
+                        });
+                        if (debited.count === 0) {
+                            throw new Error("Balance changed during expiry");
+                        }
+                    }
+
+                    await ledgerService.recordJournal(
+                        tx,
+                        { type: "EXPIRY" },
+                        [
+                            h.userId
+                                ? ledgerService.walletLine(
+                                      h.role,
+                                      h.userId,
+                                      "DEBIT",
+                                      expiring
+                                  )
+                                : ledgerService.shadowLine(
+                                      h.phone,
+                                      "DEBIT",
+                                      expiring
+                                  ),
+                            {
+                                account: "EXPIRED_POINTS",
+                                direction: "CREDIT",
+                                amount: expiring
+                            }
+                        ],
+                        `Points expired (${policy.mode}, ${policy.months} months)`
+                    );
+                });
+
+                summary.expiredHolders++;
+                expiredTotal = expiredTotal.plus(expiring);
+                logger.info(`[Expiry] Expired ${expiring} points for ${h.phone}`);
+
+                if (h.userId) {
+                    await notificationService.notifyPointsExpired(
+                        h.userId,
+                        expiring.toString()
+                    );
+                }
+            }
+
+            if (soon.gt(0) && h.userId) {
+                // One reminder per warning window
+                const alreadyWarned = await prisma.notification.findFirst({
+                    where: {
+                        user_id: h.userId,
+                        type: "POINTS_EXPIRING_SOON",
+                        created_at: {
+                            gte: new Date(
+                                now.getTime() - policy.warningDays * 86400000
+                            )
+                        }
+                    }
+                });
+                if (!alreadyWarned) {
+                    await notificationService.notifyPointsExpiringSoon(
+                        h.userId,
+                        soon.toString(),
+                        policy.warningDays
+                    );
+                    summary.warned++;
+                }
+            }
+        } catch (err) {
+            logger.error(`[Expiry] Error expiring points for ${h.phone}: ${err}`);
+        }
+    }
+    summary.expiredPoints = expiredTotal.toNumber();
+
+    logger.info(
+        `[Expiry] Expired ${summary.expiredPoints} points from ${summary.expiredHolders} wallets, warned ${summary.warned}`
+    );
+    return summary;
+}
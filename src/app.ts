@@ -16,6 +16,10 @@ import swaggerSetup from "./utils/swagger.js";
 
 import { initDailyGoalsJob } from "./jobs/dailyGoals.job.js";
 import { initNotificationCleanupJob } from "./jobs/notificationCleanup.job.js";
+import { initReconciliationJob } from "./jobs/reconciliation.job.js";
+import { initPointsExpiryJob } from "./jobs/pointsExpiry.job.js";
+import { initShadowWalletJob } from "./jobs/shadowWallet.job.js";
+import { initInvoiceJob } from "./jobs/invoice.job.js";
 
 const app: Express = express();
 
@@ -24,6 +28,10 @@ const app: Express = express();
 if (!process.env.VERCEL) {
     initDailyGoalsJob();
     initNotificationCleanupJob();
+    initReconciliationJob();
+    initPointsExpiryJob();
+    initShadowWalletJob();
+    initInvoiceJob();
     logger.info("[Cron] Node-cron jobs initialized (non-Vercel environment)");
 } else {
     logger.info("[Cron] Skipping node-cron (Vercel uses HTTP crons)");
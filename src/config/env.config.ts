@@ -9,8 +9,10 @@ export interface IConfig {
     DATABASE_URL: string;
     /** Secret key for signing JWTs */
     JWT_SECRET: string;
-    /** Expiration time for JWTs (e.g., "7d", "1h") */
+    /** Expiration time for access tokens (e.g., "15m", "1h") */
     JWT_EXPIRY: string;
+    /** Lifetime of a session's refresh token (e.g., "30d") */
+    REFRESH_TOKEN_EXPIRY: string;
     /** Port number the server listens on */
     PORT: number;
     /** Node environment (development, production, test) */
@@ -84,7 +86,8 @@ export const loadConfig = async (): Promise<IConfig> => {
 
         // JWT
         JWT_SECRET: process.env.JWT_SECRET!,
-        JWT_EXPIRY: process.env.JWT_EXPIRY || "7d",
+        JWT_EXPIRY: process.env.JWT_EXPIRY || "15m",
+        REFRESH_TOKEN_EXPIRY: process.env.REFRESH_TOKEN_EXPIRY || "30d",
 
         // Server
         PORT: parseInt(process.env.PORT || "3000", 10),
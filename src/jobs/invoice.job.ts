@@ -0,0 +1,21 @@
+import cron from "node-cron";
+import { generateInvoices } from "../api/dues/dues.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Initialize the kiosk invoice cron job.
+ * Runs at 03:00 every day and invoices the last completed billing period.
+ */
+export function initInvoiceJob() {
+    // Run at 03:00 every day (kiosks already invoiced for the period are skipped)
+    cron.schedule("0 3 * * *", async () => {
+        logger.info("[Job] Running Kiosk Invoicing...");
+        try {
+            await generateInvoices();
+        } catch (err) {
+            logger.error(`[Job] Error in Kiosk Invoicing: ${err}`);
+        }
+    });
+
+    logger.info("[Job] Kiosk Invoice Job initialized (03:00 daily)");
+}
@@ -31,6 +31,7 @@ export function initNotificationCleanupJob() {
             const overdueDues = await prisma.kioskDue.findMany({
                 where: {
                     is_paid: false,
+                    is_cancelled: false,
                     created_at: {
                         lt: threeDaysAgo
                     }
@@ -55,7 +56,7 @@ export function initNotificationCleanupJob() {
                 await notifyOwnerDuePending(
                     due.kiosk.owner_id,
                     due.kiosk.name,
-                    due.amount.toString(),
+                    due.amount.minus(due.paid_amount).toString(),
                     daysPending
                 );
             }
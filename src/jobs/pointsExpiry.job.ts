@@ -0,0 +1,22 @@
+import cron from "node-cron";
+import { expirePoints } from "../api/wallet/wallet.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Initialize the points expiry cron job.
+ * Runs at 01:00 every day to expire points under the expiry policy
+ * and warn customers whose points expire soon.
+ */
+export function initPointsExpiryJob() {
+    // Run at 01:00 every day
+    cron.schedule("0 1 * * *", async () => {
+        logger.info("[Job] Running Points Expiry...");
+        try {
+            await expirePoints();
+        } catch (err) {
+            logger.error(`[Job] Error in Points Expiry: ${err}`);
+        }
+    });
+
+    logger.info("[Job] Points Expiry Job initialized (01:00 daily)");
+}
@@ -0,0 +1,21 @@
+import cron from "node-cron";
+import { reconcileWallets } from "../api/ledger/ledger.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Initialize the wallet reconciliation cron job.
+ * Runs at 02:00 every day to compare stored balances with the ledger.
+ */
+export function initReconciliationJob() {
+    // Run at 02:00 every day (after goals settle and cleanup finishes)
+    cron.schedule("0 2 * * *", async () => {
+        logger.info("[Job] Running Wallet Reconciliation...");
+        try {
+            await reconcileWallets();
+        } catch (err) {
+            logger.error(`[Job] Error in Wallet Reconciliation: ${err}`);
+        }
+    });
+
+    logger.info("[Job] Wallet Reconciliation Job initialized (02:00 daily)");
+}
@@ -0,0 +1,22 @@
+import cron from "node-cron";
+import { processShadowWallets } from "../api/wallet/shadowWallet.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Initialize the shadow wallet lifecycle cron job.
+ * Runs at 10:00 every day to send claim reminders and expire
+ * unclaimed balances.
+ */
+export function initShadowWalletJob() {
+    // Run at 10:00 every day (daytime, since it sends SMS)
+    cron.schedule("0 10 * * *", async () => {
+        logger.info("[Job] Running Shadow Wallet Lifecycle...");
+        try {
+            await processShadowWallets();
+        } catch (err) {
+            logger.error(`[Job] Error in Shadow Wallet Lifecycle: ${err}`);
+        }
+    });
+
+    logger.info("[Job] Shadow Wallet Job initialized (10:00 daily)");
+}
@@ -19,8 +19,10 @@ declare module "express-serve-static-core" {
         user?: {
             id: string;
             phone: string;
-            role: "CUSTOMER" | "WORKER" | "OWNER" | "ADMIN";
+            role: "CUSTOMER" | "WORKER" | "OWNER" | "ADMIN" | "COLLECTOR";
             admin_role?: "SUPER_ADMIN" | "EDITOR" | "VIEWER";
+            /** Session the access token is bound to */
+            session_id?: string;
         };
     }
 }
@@ -115,9 +117,79 @@ export const tempAuthMiddleware = async (
     }
 };
 
+/**
+ * Verify an access token and load the session and user it was issued to.
+ * Identity and role come from the user record, not from the token claims.
+ *
+ * @param {string} token - The access token.
+ * @returns {Promise<object>} The user and the session.
+ * @throws {AuthenticationError} If the session or the user no longer matches the token.
+ */
+async function loadTokenUser(token: string) {
+    const decoded = jwt.verify(token, (await config).JWT_SECRET as string) as {
+        id: string;
+        phone: string;
+        role: string;
+        admin_role?: string;
+        sid?: string;
+        ver?: number;
+    };
+
+    // Access tokens are bound to a session, which can be revoked
+    // before the token expires
+    const session = decoded.sid
+        ? await prisma.session.findUnique({ where: { id: decoded.sid } })
+        : null;
+
+    if (
+        !session ||
+        session.user_id !== decoded.id ||
+        session.revoked_at ||
+        session.expires_at < new Date()
+    ) {
+        throw new AuthenticationError(
+            "Session revoked or expired",
+            ErrorCode.SESSION_REVOKED
+        );
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { id: decoded.id }
+    });
+
+    if (!user) {
+        throw new AuthenticationError(
+            "User not found",
+            ErrorCode.UNAUTHORIZED_ACCESS
+        );
+    }
+
+    if (!user.is_active) {
+        throw new AuthenticationError(
+            "Account is inactive or suspended",
+            ErrorCode.ACCOUNT_INACTIVE
+        );
+    }
+
+    // Status changes, password resets and profile edits bump the token
+    // version; a role change invalidates the token even without one
+    if (
+        (decoded.ver ?? 0) !== user.token_version ||
+        decoded.role !== user.role
+    ) {
+        throw new AuthenticationError(
+            "Token no longer valid, please refresh",
+            ErrorCode.TOKEN_EXPIRED
+        );
+    }
+
+    return { user, session };
+}
+
 /**
  * Authentication Middleware
- * Validates JWT token and extracts user info.
+ * Validates JWT token and loads the user it was issued to. Identity and role
+ * come from the user record, not from the token claims.
  *
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
@@ -144,37 +216,14 @@ export const authMiddleware = async (
             return;
         }
 
-        const decoded = jwt.verify(
-            token,
-            (await config).JWT_SECRET as string
-        ) as {
-            id: string;
-            phone: string;
-            role: string;
-            admin_role?: string;
-        };
-
-        const user = await prisma.user.findUnique({
-            where: { phone: decoded.phone }
-        });
-
-        if (!user) {
-            errorHandler(
-                new AuthenticationError(
-                    "User not found",
-                    ErrorCode.UNAUTHORIZED_ACCESS
-                ),
-                req,
-                res
-            );
-            return;
-        }
+        const { user, session } = await loadTokenUser(token);
 
         req.user = {
-            id: decoded.id,
-            phone: decoded.phone,
-            role: decoded.role as "CUSTOMER" | "WORKER" | "OWNER" | "ADMIN",
-            admin_role: user.admin_role as "SUPER_ADMIN" | "EDITOR" | "VIEWER"
+            id: user.id,
+            phone: user.phone,
+            role: user.role,
+            admin_role: user.admin_role,
+            session_id: session.id
         };
 
         if (!user.is_verified) {
@@ -189,7 +238,7 @@ export const authMiddleware = async (
             return;
         }
 
-        logger.debug(`User authenticated: ${decoded.phone}`);
+        logger.debug(`User authenticated: ${user.phone}`);
         next();
     } catch (err) {
         if (err instanceof AuthenticationError) {
@@ -318,7 +367,9 @@ export const adminRoleGuard = (...allowedAdminRoles: string[]) => {
 
 /**
  * Optional Auth Middleware
- * Validates JWT if present, but doesn't require it.
+ * Loads the user like authMiddleware if a token is present, but doesn't
+ * require one. A token that authMiddleware would reject leaves the request
+ * unauthenticated.
  *
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
@@ -333,19 +384,21 @@ export const optionalAuthMiddleware = async (
         const token = req.headers.authorization?.split(" ")[1];
 
         if (token) {
-            const decoded = jwt.verify(token, (await config).JWT_SECRET) as {
-                id: string;
-                phone: string;
-                role: string;
-            };
-
-            req.user = {
-                id: decoded.id,
-                phone: decoded.phone,
-                role: decoded.role as "CUSTOMER" | "WORKER" | "OWNER" | "ADMIN"
-            };
-
-            logger.debug(`Optional auth: User authenticated: ${decoded.phone}`);
+            const { user, session } = await loadTokenUser(token);
+
+            if (user.is_verified) {
+                req.user = {
+                    id: user.id,
+                    phone: user.phone,
+                    role: user.role,
+                    admin_role: user.admin_role,
+                    session_id: session.id
+                };
+
+                logger.debug(
+                    `Optional auth: User authenticated: ${user.phone}`
+                );
+            }
         }
 
         next();
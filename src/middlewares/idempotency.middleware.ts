@@ -0,0 +1,245 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+import {
+    AppError,
+    ErrorCode,
+    HttpStatus,
+    ValidationError
+} from "../utils/response.js";
+import logger from "../utils/logger.js";
+import { errorHandler } from "./error.middleware.js";
+
+/**
+ * How long a stored response can be replayed.
+ */
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+/**
+ * How long a request may hold its key before a retry can take it over, e.g.
+ * after the process died mid-request. Longer than any handler should run.
+ */
+const IDEMPOTENCY_LEASE_MS = 2 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serialize a value with sorted object keys so equal bodies hash equally.
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .map(
+                (k) =>
+                    `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`
+            );
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Idempotency Middleware Factory
+ * When an `Idempotency-Key` header is sent, the first response for that key is
+ * stored and replayed for any retry with the same body. Reusing a key with a
+ * different body is rejected. Requests without the header pass through.
+ * Must run after authMiddleware and validateRequest.
+ *
+ * @param {string} scope - The endpoint the key is scoped to (e.g. "POST /transactions").
+ * @returns {Function} Express middleware function.
+ */
+export const idempotency = (scope: string) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const key = req.header("Idempotency-Key");
+        if (!key) return next();
+
+        try {
+            if (key.length > MAX_KEY_LENGTH) {
+                errorHandler(
+                    new ValidationError(
+                        `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`
+                    ),
+                    req,
+                    res
+                );
+                return;
+            }
+
+            const userId = req.user!.id;
+            const requestHash = createHash("sha256")
+                .update(stableStringify(req.body ?? {}))
+                .digest("hex");
+
+            let record = await prisma.idempotencyKey.findUnique({
+                where: { user_id_scope_key: { user_id: userId, scope, key } }
+            });
+
+            // Expired keys behave as new
+            if (record && record.expires_at < new Date()) {
+                await prisma.idempotencyKey.delete({ where: { id: record.id } });
+                record = null;
+            }
+
+            if (!record) {
+                try {
+                    record = await prisma.idempotencyKey.create({
+                        data: {
+                            key,
+                            user_id: userId,
+                            scope,
+                            request_hash: requestHash,
+                            locked_until: new Date(
+                                Date.now() + IDEMPOTENCY_LEASE_MS
+                            ),
+                            expires_at: new Date(
+                                Date.now() + IDEMPOTENCY_TTL_MS
+                            )
+                        }
+                    });
+                } catch (err) {
+                    // Lost a race with a concurrent request using the same key
+                    if (
+                        err instanceof Prisma.PrismaClientKnownRequestError &&
+                        err.code === "P2002"
+                    ) {
+                        errorHandler(
+                            new AppError(
+                                "A request with this Idempotency-Key is still being processed",
+                                HttpStatus.CONFLICT,
+                                ErrorCode.IDEMPOTENCY_REQUEST_IN_PROGRESS
+                            ),
+                            req,
+                            res
+                        );
+                        return;
+                    }
+                    throw err;
+                }
+
+                captureResponse(record.id, res);
+                return next();
+            }
+
+            if (record.request_hash !== requestHash) {
+                errorHandler(
+                    new AppError(
+                        "Idempotency-Key was already used with a different request body",
+                        HttpStatus.UNPROCESSABLE_ENTITY,
+                        ErrorCode.IDEMPOTENCY_KEY_MISMATCH
+                    ),
+                    req,
+                    res
+                );
+                return;
+            }
+
+            if (record.status === "IN_PROGRESS") {
+                // Take over a key whose lease ran out; the conditional update
+                // lets only one retry win
+                const now = new Date();
+                const { count } = await prisma.idempotencyKey.updateMany({
+                    where: {
+                        id: record.id,
+                        status: "IN_PROGRESS",
+                        OR: [
+                            { locked_until: null },
+                            { locked_until: { lt: now } }
+                        ]
+                    },
+                    data: {
+                        locked_until: new Date(
+                            now.getTime() + IDEMPOTENCY_LEASE_MS
+                        )
+                    }
+                });
+                if (count === 1) {
+                    logger.warn(
+                        `[Idempotency] Reclaimed stale ${scope} key ${key}`
+                    );
+                    captureResponse(record.id, res);
+                    return next();
+                }
+
+                errorHandler(
+                    new AppError(
+                        "A request with this Idempotency-Key is still being processed",
+                        HttpStatus.CONFLICT,
+                        ErrorCode.IDEMPOTENCY_REQUEST_IN_PROGRESS
+                    ),
+                    req,
+                    res
+                );
+                return;
+            }
+
+            logger.info(`[Idempotency] Replaying ${scope} for key ${key}`);
+            res.setHeader("Idempotent-Replayed", "true");
+            res.status(record.response_status).json(
+                JSON.parse(record.response_body)
+            );
+        } catch (err) {
+            errorHandler(err, req, res);
+            return;
+        }
+    };
+};
+
+/**
+ * Store the JSON response as soon as the handler produces it, so it is kept
+ * even if the client has already disconnected. Server errors release the
+ * key so the client can retry, and so does a connection that closes before
+ * any response was produced.
+ *
+ * @param {string} recordId - The ID of the idempotency record.
+ * @param {Response} res - The Express response object.
+ */
+function captureResponse(recordId: string, res: Response) {
+    let settled = false;
+
+    const release = async () => {
+        try {
+            await prisma.idempotencyKey.deleteMany({
+                where: { id: recordId, status: "IN_PROGRESS" }
+            });
+        } catch (err) {
+            logger.error(`[Idempotency] Error releasing key: ${err}`);
+        }
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (data: unknown) => {
+        if (!settled) {
+            settled = true;
+            if (res.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+                void release();
+            } else {
+                prisma.idempotencyKey
+                    .updateMany({
+                        where: { id: recordId, status: "IN_PROGRESS" },
+                        data: {
+                            status: "COMPLETED",
+                            response_status: res.statusCode,
+                            response_body: JSON.stringify(data ?? null),
+                            locked_until: null
+                        }
+                    })
+                    .catch((err) =>
+                        logger.error(
+                            `[Idempotency] Error storing response: ${err}`
+                        )
+                    );
+            }
+        }
+        return originalJson(data);
+    };
+
+    res.on("close", () => {
+        if (!settled && !res.writableFinished) {
+            settled = true;
+            void release();
+        }
+    });
+}
@@ -1,5 +1,9 @@
+import { Request, Response, NextFunction } from "express";
 import { rateLimit } from "express-rate-limit";
 import { config } from "../config/env.config.js";
+import { ErrorCode } from "../utils/response.js";
+import { errorHandler } from "./error.middleware.js";
+import * as bruteForceService from "../api/auth/bruteForce.service.js";
 
 /**
  * Global rate limiter
@@ -14,31 +18,56 @@ export const globalLimiter = rateLimit({
 });
 
 /**
- * Auth rate limiter (stricter)
- * Limits authentication attempts to prevent brute force attacks.
- * 5 attempts per 15 minutes.
+ * Errors that mean a wrong password, code or PIN was tried.
  */
-export const authLimiter = rateLimit({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 5, // 5 attempts per 15 minutes
-    message: "Too many authentication attempts, please try again later",
-    skipSuccessfulRequests: true,
-    standardHeaders: true,
-    legacyHeaders: false
-});
+const CREDENTIAL_FAILURES: string[] = [
+    ErrorCode.INVALID_CREDENTIALS,
+    ErrorCode.INVALID_OTP,
+    ErrorCode.INVALID_PIN
+];
 
 /**
- * OTP rate limiter
- * Limits OTP requests to prevent abuse.
- * 3 OTP requests per hour.
+ * Brute-force guard
+ * Rejects login and OTP requests while the phone is locked or the phone or
+ * IP is in backoff. Otherwise the attempt is counted as a failure up front
+ * and given back unless the handler answers with a credential failure
+ * (wrong password, code or PIN). Counters live in the database, so they
+ * hold across serverless instances.
+ *
+ * @param {Request} req - The Express request object, with the phone in body or from the temporary token.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The Express next middleware function.
  */
-export const otpLimiter = rateLimit({
-    windowMs: 60 * 60 * 1000, // 1 hour
-    max: 3, // 3 OTP requests per hour
-    message: "Too many OTP requests, please try again later",
-    standardHeaders: true,
-    legacyHeaders: false
-});
+export const bruteForceGuard = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const reserved = await bruteForceService.reserveAttempt(
+            req.body?.phone || req.user?.phone,
+            req.ip
+        );
+
+        // Note the error code of the answer, if any
+        let errorCode: string | undefined;
+        const originalJson = res.json.bind(res);
+        res.json = (body: { errorCode?: string }) => {
+            errorCode = body?.errorCode;
+            return originalJson(body);
+        };
+
+        res.on("finish", () => {
+            if (!CREDENTIAL_FAILURES.includes(errorCode)) {
+                void bruteForceService.releaseAttempt(reserved);
+            }
+        });
+
+        next();
+    } catch (err) {
+        errorHandler(err, req, res);
+    }
+};
 
 /**
  * Transaction rate limiter
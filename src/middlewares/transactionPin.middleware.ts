@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError, ErrorCode, HttpStatus } from "../utils/response.js";
+import { errorHandler } from "./error.middleware.js";
+import * as pinService from "../api/pin/pin.service.js";
+
+/**
+ * Transaction PIN Middleware Factory
+ * Checks the `X-Transaction-Pin` header against the user's PIN. Users without
+ * a PIN pass through unless the transaction_pin_required setting is on.
+ * Must run after authMiddleware and validateRequest, and before idempotency.
+ *
+ * @param {object} [options] - Guard options.
+ * @param {boolean} [options.aboveThreshold] - Only ask for the PIN when body.amount is above transaction_pin_send_threshold.
+ * @returns {Function} Express middleware function.
+ */
+export const transactionPin = (options: { aboveThreshold?: boolean } = {}) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const policy = await pinService.getPinPolicy();
+
+            if (
+                options.aboveThreshold &&
+                Number(req.body?.amount) <= policy.sendThreshold
+            ) {
+                return next();
+            }
+
+            const userId = req.user!.id;
+            if (!(await pinService.hasPin(userId))) {
+                if (!policy.required) return next();
+
+                errorHandler(
+                    new AppError(
+                        "يجب تعيين رقم PIN للمعاملات أولاً",
+                        HttpStatus.FORBIDDEN,
+                        ErrorCode.PIN_NOT_SET
+                    ),
+                    req,
+                    res
+                );
+                return;
+            }
+
+            const pin = req.header("X-Transaction-Pin");
+            if (!pin) {
+                errorHandler(
+                    new AppError(
+                        "رقم PIN للمعاملات مطلوب",
+                        HttpStatus.FORBIDDEN,
+                        ErrorCode.PIN_REQUIRED
+                    ),
+                    req,
+                    res
+                );
+                return;
+            }
+
+            await pinService.verifyPin(userId, pin);
+            next();
+        } catch (err) {
+            errorHandler(err, req, res);
+        }
+    };
+};
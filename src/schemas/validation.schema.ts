@@ -4,6 +4,14 @@ import { z } from "zod";
  * Auth Schemas
  */
 
+/** Password policy for new passwords */
+export const passwordPolicySchema = z
+    .string()
+    .min(8, "Password must be at least 8 chars")
+    .max(72, "Password must be at most 72 chars")
+    .regex(/[A-Za-z]/, "Password must contain a letter")
+    .regex(/[0-9]/, "Password must contain a digit");
+
 /** Schema for sending OTP */
 export const sendOtpSchema = z.object({
     phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format")
@@ -11,10 +19,9 @@ export const sendOtpSchema = z.object({
 
 /** Schema for verifying OTP */
 export const verifyOtpSchema = z.object({
-    code: z
-        .string()
-        .length(4, "OTP must be 4 digits")
-        .regex(/^\d+$/, "OTP must be numeric")
+    code: z.string().regex(/^\d{4,8}$/, "OTP must be 4 to 8 digits"),
+    device_name: z.string().max(100).optional(),
+    platform: z.string().max(50).optional()
 });
 
 /** Schema for user registration */
@@ -28,15 +35,35 @@ export const registerSchema = z.object({
 /** Schema for user login */
 export const loginSchema = z.object({
     phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format"),
-    password: z.string()
+    password: z.string(),
+    device_name: z.string().max(100).optional(),
+    platform: z.string().max(50).optional()
+});
+
+/** Schema for refreshing a session */
+export const refreshTokenSchema = z.object({
+    refresh_token: z.string().min(1, "Refresh token is required")
 });
 
 export const forgotPasswordSchema = z.object({
     phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format")
 });
 
+/** Schema for verifying the forgot-password OTP */
+export const verifyPasswordResetSchema = z.object({
+    phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format"),
+    code: z.string().regex(/^\d{4,8}$/, "OTP must be 4 to 8 digits")
+});
+
+/** Schema for setting a new password with a reset token */
+export const completePasswordResetSchema = z.object({
+    reset_token: z.string().min(1, "Reset token is required"),
+    password: passwordPolicySchema
+});
+
 export const resetPasswordSchema = z.object({
-    password: z.string()
+    current_password: z.string().min(1, "Current password is required"),
+    password: passwordPolicySchema
 });
 
 /**
@@ -50,6 +77,38 @@ export const sendPointsSchema = z.object({
     kioskId: z.string().uuid("Invalid kiosk ID")
 });
 
+export const reverseTransactionSchema = z.object({
+    reason: z
+        .string()
+        .min(3, "Reason must be at least 3 characters")
+        .max(500, "Reason is too long")
+});
+
+/**
+ * Transaction PIN Schemas
+ */
+
+/** A 4 to 6 digit transaction PIN */
+const pinSchema = z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits");
+
+/** Schema for setting the first PIN */
+export const setPinSchema = z.object({
+    password: z.string().min(1, "Password is required"),
+    pin: pinSchema
+});
+
+/** Schema for changing the PIN */
+export const changePinSchema = z.object({
+    current_pin: pinSchema,
+    new_pin: pinSchema
+});
+
+/** Schema for resetting the PIN with an OTP */
+export const resetPinSchema = z.object({
+    code: z.string().regex(/^\d{4,8}$/, "OTP must be 4 to 8 digits"),
+    new_pin: pinSchema
+});
+
 /**
  * Wallet Schemas
  */
@@ -62,6 +121,21 @@ export const redeemSchema = z.object({
     details: z.string().min(5, "Redemption details required")
 });
 
+/** Schema for a redemption method rule stored in system settings */
+export const redemptionMethodRuleSchema = z.object({
+    enabled: z.boolean(),
+    min: z.number().nonnegative(),
+    max: z.number().positive().nullable(),
+    fee_type: z.enum(["FLAT", "PERCENTAGE"]),
+    fee_value: z.number().nonnegative(),
+    details_pattern: z.string().min(1)
+});
+
+export const transferSchema = z.object({
+    phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format"),
+    amount: z.number().int().positive("Amount must be positive")
+});
+
 /** Schema for creating a goal */
 export const createGoalSchema = z.object({
     title: z.string().min(3, "Goal title must be at least 3 characters"),
@@ -102,22 +176,74 @@ export const removeWorkerSchema = z.object({
     workerId: z.string().uuid("Invalid worker ID")
 });
 
+/** Schema for settling dues from the owner's wallet */
+export const settleDuesSchema = z.object({
+    amount: z.number().positive("Amount must be positive").optional()
+});
+
+/**
+ * Collector Schemas
+ */
+
+/** Schema for recording a cash collection */
+export const collectionSchema = z.object({
+    amount: z.number().positive("Amount must be positive"),
+    note: z.string().optional()
+});
+
+/** Schema for handing over collected cash */
+export const handoverSchema = z.object({
+    declared_amount: z.number().nonnegative("Amount cannot be negative"),
+    note: z.string().optional()
+});
+
 /**
  * Admin Schemas
  */
 
 /** Schema for processing a redemption request */
-export const processRedemptionSchema = z.object({
-    reqId: z.string().uuid("Invalid redemption request ID"),
-    action: z.enum(["APPROVE", "REJECT"]),
+export const processRedemptionSchema = z
+    .object({
+        reqId: z.string().uuid("Invalid redemption request ID"),
+        action: z.enum(["APPROVE", "REJECT", "FAIL"]),
+        note: z.string().optional(),
+        reference: z.string().min(3).optional(),
+        proof: z.string().min(3).optional()
+    })
+    .refine((d) => d.action !== "APPROVE" || !!d.reference, {
+        message: "Payout reference is required to mark a redemption as paid",
+        path: ["reference"]
+    });
+
+/** Schema for claiming or releasing a redemption */
+export const redemptionLockSchema = z.object({
     note: z.string().optional()
 });
 
+/** Schema for creating a payout batch */
+export const createPayoutBatchSchema = z.object({
+    method: z.string().min(3, "Redemption method required"),
+    redemptionIds: z.array(z.string().uuid()).min(1).optional(),
+    limit: z.number().int().positive().max(1000).optional()
+});
+
+/** Schema for importing a payout settlement file */
+export const importSettlementSchema = z.object({
+    csv: z.string().min(1, "Settlement file content required")
+});
+
 /** Schema for collecting due */
 export const collectDueSchema = z.object({
     dueId: z.string().uuid("Invalid due ID")
 });
 
+/** Schema for recording a payment against kiosk dues */
+export const duePaymentSchema = z.object({
+    amount: z.number().positive("Amount must be positive"),
+    method: z.string().min(2).optional(),
+    note: z.string().optional()
+});
+
 /** Schema for updating system setting */
 export const updateSettingSchema = z.object({
     key: z.enum([
@@ -125,12 +251,64 @@ export const updateSettingSchema = z.object({
         "max_transaction_amount",
         "max_daily_tx",
         "max_daily_tx_to_customer",
-        "max_kiosks"
+        "max_kiosks",
+        "reversal_window_minutes",
+        "transfer_fee",
+        "transfer_max_daily_count",
+        "transfer_max_daily_amount",
+        "points_expiry_mode",
+        "points_expiry_months",
+        "points_expiry_warning_days",
+        "shadow_wallet_reminder_days",
+        "shadow_wallet_expiry_days",
+        "min_redemption",
+        "redemption_method_vodafone_cash",
+        "redemption_method_instapay",
+        "redemption_method_bank_transfer",
+        "redemption_claim_ttl_minutes",
+        "invoice_billing_period",
+        "owner_wallet_min_reserve",
+        "kiosk_credit_limit",
+        "kiosk_max_due_age_days",
+        "kiosk_credit_warning_percent",
+        "otp_length",
+        "otp_ttl_minutes",
+        "otp_max_attempts",
+        "otp_lockout_minutes",
+        "otp_resend_cooldown_seconds",
+        "message_inbox_enabled",
+        "auth_max_failed_attempts",
+        "auth_lockout_minutes",
+        "auth_backoff_free_attempts",
+        "auth_backoff_max_seconds",
+        "auth_ip_free_attempts",
+        "transaction_pin_required",
+        "transaction_pin_send_threshold",
+        "transaction_pin_max_attempts",
+        "transaction_pin_lockout_minutes"
     ]),
     value: z.any(),
     description: z.string().optional()
 });
 
+/** Schema for creating a collector */
+export const createCollectorSchema = z.object({
+    phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format"),
+    fullName: z.string().min(2, "Full name is required"),
+    password: z.string().min(8, "Password must be at least 8 chars")
+});
+
+/** Schema for assigning kiosks to a collector */
+export const assignCollectorKiosksSchema = z.object({
+    kioskIds: z.array(z.string().uuid("Invalid kiosk ID"))
+});
+
+/** Schema for reconciling a collector handover */
+export const reconcileHandoverSchema = z.object({
+    received_amount: z.number().nonnegative("Amount cannot be negative"),
+    note: z.string().optional()
+});
+
 /** Schema for creating admin */
 export const createAdminSchema = z.object({
     phone: z.string().regex(/^\+?[0-9]{10,15}$/, "Invalid phone number format"),
@@ -194,11 +372,70 @@ export const adminCreateKioskSchema = z.object({
     ownerPhone: z.string().regex(/^\+?[0-9]{10,15}$/)
 });
 
+export const commissionTierSchema = z.object({
+    up_to: z.number().positive().nullable(),
+    model: z.enum(["FLAT", "PERCENTAGE"]),
+    value: z.number().nonnegative()
+});
+
+export const createCommissionRuleSchema = z
+    .object({
+        scope: z.enum(["GLOBAL", "KIOSK_TYPE", "KIOSK"]),
+        kiosk_type: z.string().min(3).optional(),
+        kiosk_id: z.string().uuid("Invalid kiosk ID").optional(),
+        model: z.enum(["FLAT", "PERCENTAGE", "TIERED"]),
+        value: z.number().nonnegative().optional(),
+        tiers: z.array(commissionTierSchema).min(1).optional(),
+        min_commission: z.number().nonnegative().optional(),
+        max_commission: z.number().nonnegative().optional()
+    })
+    .refine((d) => d.scope !== "KIOSK_TYPE" || !!d.kiosk_type, {
+        message: "kiosk_type is required for KIOSK_TYPE rules",
+        path: ["kiosk_type"]
+    })
+    .refine((d) => d.scope !== "KIOSK" || !!d.kiosk_id, {
+        message: "kiosk_id is required for KIOSK rules",
+        path: ["kiosk_id"]
+    })
+    .refine((d) => d.model === "TIERED" || d.value !== undefined, {
+        message: "value is required for FLAT and PERCENTAGE rules",
+        path: ["value"]
+    })
+    .refine((d) => d.model !== "TIERED" || !!d.tiers, {
+        message: "tiers are required for TIERED rules",
+        path: ["tiers"]
+    })
+    .refine(
+        (d) =>
+            d.min_commission === undefined ||
+            d.max_commission === undefined ||
+            d.min_commission <= d.max_commission,
+        {
+            message: "min_commission cannot exceed max_commission",
+            path: ["min_commission"]
+        }
+    );
+
 export const updateKioskStatusSchema = z.object({
     is_active: z.boolean(),
     reason: z.string().optional()
 });
 
+export const transactionLimitsSchema = z
+    .object({
+        max_transaction_amount: z.number().int().positive().nullable(),
+        max_daily_tx: z.number().int().positive().nullable(),
+        max_daily_tx_to_customer: z.number().int().positive().nullable()
+    })
+    .partial();
+
+export const creditPolicySchema = z
+    .object({
+        credit_limit: z.number().nonnegative().nullable(),
+        max_due_age_days: z.number().int().nonnegative().nullable()
+    })
+    .partial();
+
 export const reassignWorkerSchema = z.object({
     kioskId: z.string().uuid()
 });
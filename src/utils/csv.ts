@@ -0,0 +1,90 @@
+/**
+ * Escapes a value for a CSV cell, quoting it when it contains
+ * a separator, a quote or a line break. Text that a spreadsheet would
+ * read as a formula is prefixed with `'` so it opens as plain text.
+ *
+ * @param {unknown} value - The cell value.
+ * @returns {string} The escaped cell.
+ */
+function escapeCell(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    let str = String(value);
+    if (/^[=+\-@\t\r]/.test(str)) {
+        str = `'${str}`;
+    }
+    if (/[",\r\n]/.test(str)) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+}
+
+/**
+ * Builds a CSV document from a header row and data rows.
+ *
+ * @param {string[]} headers - The column names.
+ * @param {unknown[][]} rows - The data rows, in header order.
+ * @returns {string} The CSV document.
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+    return [headers, ...rows]
+        .map((row) => row.map(escapeCell).join(","))
+        .join("\r\n");
+}
+
+/**
+ * Parses a CSV document into objects keyed by the (lowercased) header row.
+ * Supports quoted cells with escaped quotes and line breaks; blank lines are skipped.
+ *
+ * @param {string} text - The CSV document.
+ * @returns {Record<string, string>[]} One object per data row.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, "");
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== "" || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    const nonEmpty = rows.filter((r) => r.some((c) => c.trim() !== ""));
+    if (nonEmpty.length === 0) return [];
+
+    const headers = nonEmpty[0].map((h) => h.trim().toLowerCase());
+
+    return nonEmpty.slice(1).map((r) =>
+        Object.fromEntries(headers.map((h, idx) => [h, (r[idx] ?? "").trim()]))
+    );
+}
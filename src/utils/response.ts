@@ -33,6 +33,16 @@ export enum ErrorCode {
     INVALID_OTP = "AUTH_006",
     USER_NOT_FOUND = "AUTH_007",
     USER_ALREADY_EXISTS = "AUTH_008",
+    SESSION_REVOKED = "AUTH_009",
+    ACCOUNT_INACTIVE = "AUTH_010",
+    OTP_LOCKED = "AUTH_011",
+    OTP_RESEND_COOLDOWN = "AUTH_012",
+    TOO_MANY_ATTEMPTS = "AUTH_013",
+    ACCOUNT_LOCKED = "AUTH_014",
+    PIN_REQUIRED = "AUTH_015",
+    INVALID_PIN = "AUTH_016",
+    PIN_LOCKED = "AUTH_017",
+    PIN_NOT_SET = "AUTH_018",
 
     // Validation Errors (2xxx)
     VALIDATION_ERROR = "VAL_001",
@@ -40,6 +50,7 @@ export enum ErrorCode {
     INVALID_EMAIL_FORMAT = "VAL_003",
     INVALID_AMOUNT = "VAL_004",
     MISSING_REQUIRED_FIELDS = "VAL_005",
+    IDEMPOTENCY_KEY_MISMATCH = "VAL_006",
 
     // Business Logic Errors (3xxx)
     INSUFFICIENT_BALANCE = "BUS_001",
@@ -52,6 +63,13 @@ export enum ErrorCode {
     KIOSK_NOT_FOUND = "BUS_008",
     REDEMPTION_LIMIT_EXCEEDED = "BUS_009",
     KIOSK_HAS_UNPAID_DUES = "BUS_010",
+    REVERSAL_WINDOW_EXPIRED = "BUS_011",
+    TRANSACTION_NOT_REVERSIBLE = "BUS_012",
+    INVALID_TRANSFER_RECEIVER = "BUS_013",
+    LIMIT_ABOVE_CEILING = "BUS_014",
+    REDEMPTION_METHOD_DISABLED = "BUS_015",
+    CREDIT_LIMIT_EXCEEDED = "BUS_016",
+    DUES_OVERDUE = "BUS_017",
 
     // Permission Errors (4xxx)
     INSUFFICIENT_PERMISSIONS = "PERM_001",
@@ -61,6 +79,7 @@ export enum ErrorCode {
     RESOURCE_NOT_FOUND = "RES_001",
     RESOURCE_CONFLICT = "RES_002",
     RESOURCE_ALREADY_EXISTS = "RES_003",
+    IDEMPOTENCY_REQUEST_IN_PROGRESS = "RES_004",
 
     // Server Errors (9xxx)
     INTERNAL_ERROR = "SRV_001",